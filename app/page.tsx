@@ -6,8 +6,9 @@ export default function Home() {
       
       <h2>Available Endpoints:</h2>
       <ul>
-        <li><strong>GET /api/mcp</strong> - Get server information and available tools</li>
-        <li><strong>POST /api/mcp</strong> - Execute MCP protocol requests</li>
+        <li><strong>GET /api/mcp</strong> - Get server information and available tools, or open a session's SSE stream</li>
+        <li><strong>POST /api/mcp</strong> - Send MCP JSON-RPC messages (Streamable HTTP transport)</li>
+        <li><strong>DELETE /api/mcp</strong> - Terminate an MCP session</li>
       </ul>
       
       <h2>Available Tools:</h2>
@@ -15,6 +16,25 @@ export default function Home() {
         <li><strong>web_search</strong> - Search the web in real-time using Google SERP data</li>
         <li><strong>bulk_web_search</strong> - Execute multiple web searches in a single request</li>
         <li><strong>advanced_web_search</strong> - Search with Google advanced operators</li>
+        <li><strong>multi_query_search</strong> - Search several phrasings of a question and fuse the results into one ranked list</li>
+        <li><strong>fetch_page</strong> - Download a page and extract its readable text and metadata</li>
+        <li><strong>quota_status</strong> - Report the remaining RapidAPI plan quota</li>
+        <li><strong>search_history</strong> - List your past searches from the audit log (when enabled)</li>
+        <li><strong>get_search</strong> - Re-open a past search and its response from the audit log (when enabled)</li>
+      </ul>
+
+      <h2>Available Resources:</h2>
+      <ul>
+        <li><strong>search://history/&#123;id&#125;</strong> - Past searches as JSON and markdown</li>
+        <li><strong>search://query/&#123;query&#125;</strong> - Web search results for a query, served from cache when available</li>
+      </ul>
+
+      <h2>Available Prompts:</h2>
+      <ul>
+        <li><strong>research_topic</strong> - Survey a topic from several angles and write a sourced summary</li>
+        <li><strong>compare_vendors</strong> - Compare products or vendors side by side on chosen criteria</li>
+        <li><strong>find_primary_sources</strong> - Trace a claim back to its original source</li>
+        <li><strong>recent_news</strong> - Collect and summarize recent news coverage of a subject</li>
       </ul>
       
       <h2>Usage:</h2>
@@ -23,7 +43,7 @@ export default function Home() {
       <div style={{ marginTop: '2rem', padding: '1rem', backgroundColor: '#f5f5f5', borderRadius: '4px' }}>
         <h3>Server Status: ✅ Running</h3>
         <p>Version: 1.0.0</p>
-        <p>Protocol: MCP 2024-11-05</p>
+        <p>Protocol: MCP 2025-06-18 (Streamable HTTP)</p>
       </div>
     </div>
   )
@@ -1,7 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['@modelcontextprotocol/sdk']
+    serverComponentsExternalPackages: ['@modelcontextprotocol/sdk', 'better-sqlite3']
   },
   async headers() {
     return [
@@ -18,7 +18,11 @@ const nextConfig = {
           },
           {
             key: 'Access-Control-Allow-Headers',
-            value: 'Content-Type, Authorization'
+            value: 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+          },
+          {
+            key: 'Access-Control-Expose-Headers',
+            value: 'Mcp-Session-Id, RateLimit-Policy, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, Retry-After'
           }
         ]
       }
@@ -29,6 +33,10 @@ const nextConfig = {
       'utf-8-validate': 'commonjs utf-8-validate',
       'bufferutil': 'commonjs bufferutil',
     });
+    // src/ uses ESM-style `.js` import specifiers that point at `.ts` sources
+    config.resolve.extensionAlias = {
+      '.js': ['.ts', '.tsx', '.js'],
+    };
     return config;
   },
 };
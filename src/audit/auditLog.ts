@@ -0,0 +1,219 @@
+import { randomUUID } from 'node:crypto';
+import { createReadStream, promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { createInterface } from 'node:readline';
+import { AuditRecord, AuditSummary, UpstreamStatus } from '../types/api.js';
+
+/**
+ * Append-only JSONL log of tool calls.
+ *
+ * Each call is one line, appended as it completes. Retention is enforced by
+ * periodically rewriting the file without expired or excess records, through a
+ * temporary file renamed into place. Writes are serialized within a process;
+ * the file should not be shared by several server processes.
+ */
+export interface AuditLogOptions {
+  path: string;
+  /** How long records are kept; 0 keeps them forever */
+  retentionMs: number;
+  /** Most records kept; 0 keeps all */
+  maxEntries: number;
+  /** Whether the tools' output is logged, so get_search can show it again */
+  logResponses: boolean;
+}
+
+export type AuditEntry = Omit<AuditRecord, 'id' | 'timestamp'>;
+
+/** Appends between retention passes */
+const PRUNE_INTERVAL = 100;
+
+/** Longest error message kept in a record */
+const MAX_ERROR_LENGTH = 500;
+
+export class AuditLog {
+  private options: AuditLogOptions;
+  private writes: Promise<void>;
+  private appendsSincePrune = 0;
+
+  constructor(options: AuditLogOptions) {
+    this.options = options;
+    this.writes = fs.mkdir(path.dirname(options.path), { recursive: true })
+      .then(() => this.prune())
+      .catch(error => console.error('Audit log setup failed:', error));
+  }
+
+  /**
+   * Append a record. Failures are logged rather than thrown, so auditing never
+   * fails a tool call.
+   */
+  async append(entry: AuditEntry): Promise<void> {
+    const record: AuditRecord = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+      ...(entry.error ? { error: entry.error.slice(0, MAX_ERROR_LENGTH) } : {})
+    };
+    if (!this.options.logResponses) {
+      delete record.response;
+    }
+
+    await this.enqueue(async () => {
+      await fs.appendFile(this.options.path, `${JSON.stringify(record)}\n`, 'utf8');
+      if (++this.appendsSincePrune >= PRUNE_INTERVAL) {
+        await this.prune();
+      }
+    });
+  }
+
+  /**
+   * List records without their responses, newest first
+   */
+  async list(filter: (record: AuditSummary) => boolean = () => true): Promise<AuditSummary[]> {
+    const summaries: AuditSummary[] = [];
+    for await (const { response: _response, ...summary } of this.readRecords()) {
+      if (filter(summary)) {
+        summaries.push(summary);
+      }
+    }
+    return summaries.reverse();
+  }
+
+  async get(id: string): Promise<AuditRecord | undefined> {
+    for await (const record of this.readRecords()) {
+      if (record.id === id) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the unexpired records in the order they were written. Lines that don't
+   * parse, such as one cut short by a crash, are skipped.
+   */
+  private async *readRecords(): AsyncGenerator<AuditRecord> {
+    await this.writes;
+
+    let lines;
+    try {
+      await fs.access(this.options.path);
+      lines = createInterface({ input: createReadStream(this.options.path, 'utf8'), crlfDelay: Infinity });
+    } catch {
+      return;
+    }
+
+    const cutoff = this.getCutoff();
+    for await (const line of lines) {
+      const record = this.parseLine(line);
+      if (record && record.timestamp >= cutoff) {
+        yield record;
+      }
+    }
+  }
+
+  /**
+   * Rewrite the log without expired records and beyond the size limit
+   */
+  private async prune(): Promise<void> {
+    this.appendsSincePrune = 0;
+    if (this.options.retentionMs === 0 && this.options.maxEntries === 0) {
+      return;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.options.path, 'utf8');
+    } catch {
+      return;
+    }
+
+    const cutoff = this.getCutoff();
+    const lines = content.split('\n').filter(line => {
+      const record = this.parseLine(line);
+      return record !== undefined && record.timestamp >= cutoff;
+    });
+    const kept = this.options.maxEntries > 0 ? lines.slice(-this.options.maxEntries) : lines;
+
+    if (kept.length === content.split('\n').length - 1) {
+      return;
+    }
+
+    const tempFile = `${this.options.path}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempFile, kept.map(line => `${line}\n`).join(''), 'utf8');
+    await fs.rename(tempFile, this.options.path);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.writes = this.writes
+      .then(task)
+      .catch(error => console.error('Audit log write failed:', error));
+    return this.writes;
+  }
+
+  private getCutoff(): string {
+    return this.options.retentionMs > 0 ? new Date(Date.now() - this.options.retentionMs).toISOString() : '';
+  }
+
+  private parseLine(line: string): AuditRecord | undefined {
+    if (!line.trim()) {
+      return undefined;
+    }
+    try {
+      const record = JSON.parse(line);
+      return typeof record?.id === 'string' && typeof record?.timestamp === 'string' ? record : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Describe a tool call for the audit log from its arguments and result
+ */
+export function describeToolCall(args: any, result: any): Pick<AuditRecord, 'status' | 'query' | 'result_count' | 'upstream' | 'retries' | 'error'> {
+  const data = result?.structuredContent;
+  const text = result?.content?.[0]?.text;
+  const query = typeof args?.query === 'string' ? args.query
+    : Array.isArray(args?.queries) ? args.queries.join(' | ')
+    : typeof args?.url === 'string' ? args.url
+    : undefined;
+
+  if (result?.isError || !data) {
+    return {
+      status: result?.isError ? 'error' : 'success',
+      query,
+      ...(result?.isError && typeof text === 'string' ? { error: text } : {})
+    };
+  }
+
+  // Bulk searches report each query, multi-query searches each variant
+  const parts: any[] | undefined = Array.isArray(data.searches) ? data.searches : Array.isArray(data.variants) ? data.variants : undefined;
+  if (parts) {
+    const succeeded = parts.filter(part => part.status !== 'error');
+    return {
+      status: 'success',
+      query,
+      result_count: Array.isArray(data.results) ? data.results.length : succeeded.reduce((total, part) => total + (part.results?.length ?? 0), 0),
+      upstream: getUpstreamStatus(succeeded.length === 0 ? [] : succeeded.map(part => part.cached === true), parts.length > 0),
+      retries: parts.reduce((total, part) => total + (part.retries ?? 0), 0)
+    };
+  }
+
+  return {
+    status: 'success',
+    query,
+    ...(Array.isArray(data.results) ? { result_count: data.results.length } : {}),
+    ...(typeof data.cached === 'boolean' ? { upstream: data.cached ? 'cached' : 'fresh' } : {}),
+    ...(typeof data.retries === 'number' ? { retries: data.retries } : {})
+  };
+}
+
+function getUpstreamStatus(cached: boolean[], attempted: boolean): UpstreamStatus | undefined {
+  if (cached.length === 0) {
+    return attempted ? 'failed' : undefined;
+  }
+  if (cached.every(Boolean)) {
+    return 'cached';
+  }
+  return cached.some(Boolean) ? 'mixed' : 'fresh';
+}
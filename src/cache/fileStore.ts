@@ -0,0 +1,156 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { CacheEntry, CacheStore, CacheStoreLimits } from './types.js';
+
+interface StoredFile<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * Filesystem cache store: one JSON file per entry in a directory.
+ *
+ * Files are written to a temporary name and renamed into place, so several
+ * server processes on one host can share the directory safely. A file's mtime
+ * records when it was stored and its atime when it was last read, which lets
+ * eviction work from `stat` alone.
+ */
+export class FileCacheStore<T> implements CacheStore<T> {
+  private directory: string;
+  private limits: CacheStoreLimits;
+  private ready: Promise<void>;
+  private pruning?: Promise<void>;
+
+  constructor(directory: string, limits: CacheStoreLimits) {
+    this.directory = directory;
+    this.limits = limits;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    await this.ready;
+    const file = this.filePath(key);
+
+    let stored: StoredFile<T>;
+    try {
+      stored = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+      // Missing, or a partial file from another process: treat as a miss
+      return undefined;
+    }
+
+    if (stored.key !== key) {
+      return undefined;
+    }
+
+    if (Date.now() - stored.storedAt >= this.limits.ttlMs) {
+      await this.removeFile(file);
+      return undefined;
+    }
+
+    // Record the access for LRU eviction, keeping mtime as the store time
+    await fs.utimes(file, new Date(), new Date(stored.storedAt)).catch(() => undefined);
+
+    return { value: stored.value, storedAt: stored.storedAt };
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (this.limits.maxEntries <= 0 || this.limits.ttlMs <= 0) {
+      return;
+    }
+
+    await this.ready;
+    const file = this.filePath(key);
+    const storedAt = Date.now();
+    const tempFile = `${file}.${randomUUID()}.tmp`;
+
+    const stored: StoredFile<T> = { key, value, storedAt };
+    await fs.writeFile(tempFile, JSON.stringify(stored), 'utf8');
+    await fs.utimes(tempFile, new Date(storedAt), new Date(storedAt));
+    await fs.rename(tempFile, file);
+
+    await this.prune();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ready;
+    await this.removeFile(this.filePath(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.ready;
+    const files = await this.listFiles();
+    await Promise.all(files.map(file => this.removeFile(file)));
+  }
+
+  async size(): Promise<number> {
+    await this.ready;
+    return (await this.listFiles()).length;
+  }
+
+  /**
+   * Remove expired entries, then the least recently read ones until the
+   * store is within its entry and byte limits
+   */
+  private prune(): Promise<void> {
+    if (!this.pruning) {
+      this.pruning = this.doPrune().finally(() => {
+        this.pruning = undefined;
+      });
+    }
+    return this.pruning;
+  }
+
+  private async doPrune(): Promise<void> {
+    const now = Date.now();
+    const entries: { file: string; size: number; accessedAt: number }[] = [];
+
+    for (const file of await this.listFiles()) {
+      try {
+        const stats = await fs.stat(file);
+        if (now - stats.mtimeMs >= this.limits.ttlMs) {
+          await this.removeFile(file);
+        } else {
+          entries.push({ file, size: stats.size, accessedAt: Math.max(stats.atimeMs, stats.mtimeMs) });
+        }
+      } catch {
+        // Removed by another process in the meantime
+      }
+    }
+
+    entries.sort((a, b) => a.accessedAt - b.accessedAt);
+
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+
+    for (const entry of entries) {
+      const overEntries = count > this.limits.maxEntries;
+      const overBytes = this.limits.maxBytes !== undefined && totalBytes > this.limits.maxBytes;
+      if (!overEntries && !overBytes) {
+        break;
+      }
+
+      await this.removeFile(entry.file);
+      totalBytes -= entry.size;
+      count--;
+    }
+  }
+
+  private async listFiles(): Promise<string[]> {
+    const names = await fs.readdir(this.directory);
+    return names
+      .filter(name => name.endsWith('.json'))
+      .map(name => path.join(this.directory, name));
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  private async removeFile(file: string): Promise<void> {
+    await fs.rm(file, { force: true });
+  }
+}
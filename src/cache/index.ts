@@ -0,0 +1,33 @@
+import { CacheConfig } from '../config.js';
+import { CacheStore } from './types.js';
+import { MemoryCacheStore } from './memoryStore.js';
+import { FileCacheStore } from './fileStore.js';
+import { SqliteCacheStore } from './sqliteStore.js';
+
+export type { CacheEntry, CacheStore, CacheStoreLimits } from './types.js';
+export { MemoryCacheStore } from './memoryStore.js';
+export { FileCacheStore } from './fileStore.js';
+export { SqliteCacheStore } from './sqliteStore.js';
+
+/**
+ * Create the cache store selected by the configuration
+ */
+export function createCacheStore<T>(config: CacheConfig): CacheStore<T> {
+  const limits = {
+    ttlMs: config.ttlMs,
+    maxEntries: config.maxEntries,
+    maxBytes: config.maxBytes
+  };
+
+  switch (config.store) {
+    case 'file':
+      return new FileCacheStore<T>(config.path ?? '.cache/search', limits);
+
+    case 'sqlite':
+      return new SqliteCacheStore<T>(config.path ?? '.cache/search-cache.db', limits);
+
+    case 'memory':
+    default:
+      return new MemoryCacheStore<T>(limits);
+  }
+}
@@ -0,0 +1,59 @@
+import { CacheEntry, CacheStore, CacheStoreLimits } from './types.js';
+
+/**
+ * In-memory LRU cache store. Entries are lost when the process exits.
+ */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private maxEntries: number;
+  private ttlMs: number;
+
+  constructor(limits: CacheStoreLimits) {
+    this.maxEntries = limits.maxEntries;
+    this.ttlMs = limits.ttlMs;
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (Date.now() - entry.storedAt >= this.ttlMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to move the entry to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (this.maxEntries <= 0 || this.ttlMs <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: Date.now() });
+
+    // Evict the least recently used entries when full
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
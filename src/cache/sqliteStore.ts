@@ -0,0 +1,129 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import type { Database } from 'better-sqlite3';
+import { CacheEntry, CacheStore, CacheStoreLimits } from './types.js';
+
+interface CacheRow {
+  value: string;
+  stored_at: number;
+}
+
+/**
+ * Embedded SQLite cache store.
+ *
+ * The database runs in WAL mode so several server processes on one host can
+ * read and write the same file. `better-sqlite3` is an optional dependency and
+ * is only loaded when this store is used.
+ */
+export class SqliteCacheStore<T> implements CacheStore<T> {
+  private filename: string;
+  private limits: CacheStoreLimits;
+  private db?: Promise<Database>;
+
+  constructor(filename: string, limits: CacheStoreLimits) {
+    this.filename = filename;
+    this.limits = limits;
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const db = await this.open();
+    const now = Date.now();
+
+    const row = db
+      .prepare('SELECT value, stored_at FROM search_cache WHERE key = ? AND stored_at > ?')
+      .get(key, now - this.limits.ttlMs) as CacheRow | undefined;
+
+    if (!row) {
+      return undefined;
+    }
+
+    db.prepare('UPDATE search_cache SET accessed_at = ? WHERE key = ?').run(now, key);
+    return { value: JSON.parse(row.value), storedAt: row.stored_at };
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (this.limits.maxEntries <= 0 || this.limits.ttlMs <= 0) {
+      return;
+    }
+
+    const db = await this.open();
+    const now = Date.now();
+    const serialized = JSON.stringify(value);
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT OR REPLACE INTO search_cache (key, value, size, stored_at, accessed_at)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(key, serialized, Buffer.byteLength(serialized), now, now);
+
+      this.prune(db, now);
+    })();
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.open();
+    db.prepare('DELETE FROM search_cache WHERE key = ?').run(key);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    db.prepare('DELETE FROM search_cache').run();
+  }
+
+  async size(): Promise<number> {
+    const db = await this.open();
+    const row = db.prepare('SELECT COUNT(*) AS count FROM search_cache').get() as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Remove expired entries, then the least recently read ones until the
+   * store is within its entry and byte limits
+   */
+  private prune(db: Database, now: number): void {
+    db.prepare('DELETE FROM search_cache WHERE stored_at <= ?').run(now - this.limits.ttlMs);
+
+    db.prepare(`
+      DELETE FROM search_cache WHERE key IN (
+        SELECT key FROM search_cache ORDER BY accessed_at DESC LIMIT -1 OFFSET ?
+      )
+    `).run(this.limits.maxEntries);
+
+    if (this.limits.maxBytes !== undefined) {
+      // Keep the most recently read entries whose running size fits the limit
+      db.prepare(`
+        DELETE FROM search_cache WHERE key IN (
+          SELECT key FROM (
+            SELECT key, SUM(size) OVER (ORDER BY accessed_at DESC, key) AS running_size
+            FROM search_cache
+          ) WHERE running_size > ?
+        )
+      `).run(this.limits.maxBytes);
+    }
+  }
+
+  private open(): Promise<Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        const { default: BetterSqlite3 } = await import('better-sqlite3');
+        await fs.mkdir(path.dirname(this.filename), { recursive: true });
+
+        const db = new BetterSqlite3(this.filename);
+        db.pragma('journal_mode = WAL');
+        db.pragma('busy_timeout = 5000');
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS search_cache (
+            key TEXT PRIMARY KEY,
+            value TEXT NOT NULL,
+            size INTEGER NOT NULL,
+            stored_at INTEGER NOT NULL,
+            accessed_at INTEGER NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS search_cache_accessed_at ON search_cache (accessed_at);
+        `);
+        return db;
+      })();
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Cache store contracts shared by the in-memory and persistent backends
+ */
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * A key/value store for cached responses.
+ *
+ * Stores own expiry and eviction: `get` never returns an entry older than the
+ * store's TTL, and `set` keeps the store within its size limits. Values must
+ * be JSON-serializable so persistent stores can write them to disk.
+ */
+export interface CacheStore<T> {
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, value: T): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+export interface CacheStoreLimits {
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes?: number;
+}
@@ -0,0 +1,286 @@
+import { RetryPolicy } from './utils/retry.js';
+import { CircuitBreakerOptions } from './utils/circuitBreaker.js';
+import { RateLimitMode } from './utils/rateLimiter.js';
+import { QuotaFloorAction, QuotaOptions } from './utils/quotaTracker.js';
+import { DomainPolicyOptions, DomainRules } from './utils/domainPolicy.js';
+import { AuditLogOptions } from './audit/auditLog.js';
+
+/**
+ * Server configuration read from environment variables
+ */
+export type CacheStoreType = 'memory' | 'file' | 'sqlite';
+
+export interface CacheConfig {
+  store: CacheStoreType;
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes?: number;
+  path?: string;
+}
+
+export interface BulkConfig {
+  concurrency: number;
+}
+
+export interface RateLimitConfig {
+  mode: RateLimitMode;
+  maxRequests: number;
+  windowMs: number;
+  burstSize?: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Per-client limits on the HTTP endpoint; a zero limit disables that check
+ */
+export interface ClientRateLimitConfig {
+  store: CacheStoreType;
+  path?: string;
+  mode: RateLimitMode;
+  maxRequests: number;
+  windowMs: number;
+  burstSize?: number;
+  quota: number;
+  quotaWindowMs: number;
+}
+
+/**
+ * Which request headers identify HTTP clients
+ */
+export interface ClientIdentityConfig {
+  apiKeys: string[];
+  trustProxy: boolean;
+}
+
+/**
+ * Limits for downloading pages with fetch_page
+ */
+export interface FetchConfig {
+  maxBytes: number;
+  timeoutMs: number;
+  maxRedirects: number;
+  /** Allow fetching hosts on loopback and private networks, e.g. for intranet deployments */
+  allowPrivateHosts: boolean;
+  cache: CacheConfig;
+}
+
+/**
+ * Searches kept for the search://history resources; 0 disables the history
+ */
+export interface HistoryConfig {
+  maxEntries: number;
+}
+
+/**
+ * How long an idle Streamable HTTP session is kept; 0 keeps sessions until they are deleted
+ */
+export interface SessionConfig {
+  idleTimeoutMs: number;
+}
+
+/**
+ * Where tool calls are audited; the audit log is off unless a path is set
+ */
+export type AuditConfig = AuditLogOptions;
+
+export interface ServerConfig {
+  cache: CacheConfig;
+  bulk: BulkConfig;
+  retry: RetryPolicy;
+  circuitBreaker: CircuitBreakerOptions;
+  rateLimit: RateLimitConfig;
+  clientRateLimit: ClientRateLimitConfig;
+  clientIdentity: ClientIdentityConfig;
+  quota: QuotaOptions;
+  domainPolicy: DomainPolicyOptions;
+  fetch: FetchConfig;
+  history: HistoryConfig;
+  sessions: SessionConfig;
+  audit?: AuditConfig;
+}
+
+const CACHE_STORE_TYPES: CacheStoreType[] = ['memory', 'file', 'sqlite'];
+const RATE_LIMIT_MODES: RateLimitMode[] = ['sliding_window', 'token_bucket'];
+const QUOTA_FLOOR_ACTIONS: QuotaFloorAction[] = ['refuse', 'throttle'];
+
+/** Tools whose domain rules can be overridden, e.g. with DOMAIN_ALLOWLIST_WEB_SEARCH */
+const POLICY_TOOLS = ['web_search', 'bulk_web_search', 'advanced_web_search', 'multi_query_search', 'fetch_page'];
+
+/**
+ * Read a non-negative integer from the environment, falling back to a default
+ */
+function readInteger(env: NodeJS.ProcessEnv, name: string, defaultValue: number): number;
+function readInteger(env: NodeJS.ProcessEnv, name: string, defaultValue?: number): number | undefined;
+function readInteger(env: NodeJS.ProcessEnv, name: string, defaultValue?: number): number | undefined {
+  const raw = env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer`);
+  }
+  return value;
+}
+
+/**
+ * Read one of a fixed set of string values from the environment
+ */
+function readChoice<T extends string>(env: NodeJS.ProcessEnv, name: string, choices: T[], defaultValue: T): T {
+  const raw = env[name]?.trim();
+  if (!raw) {
+    return defaultValue;
+  }
+
+  if (!choices.includes(raw as T)) {
+    throw new Error(`${name} must be one of: ${choices.join(', ')}`);
+  }
+  return raw as T;
+}
+
+/**
+ * Read a boolean (true/false, 1/0) from the environment
+ */
+function readBoolean(env: NodeJS.ProcessEnv, name: string): boolean | undefined {
+  const raw = env[name]?.trim().toLowerCase();
+  if (!raw) {
+    return undefined;
+  }
+
+  if (raw !== 'true' && raw !== 'false' && raw !== '1' && raw !== '0') {
+    throw new Error(`${name} must be true or false`);
+  }
+  return raw === 'true' || raw === '1';
+}
+
+/**
+ * Read a comma-separated list of domain patterns. Returns undefined when the
+ * variable is not set, and an empty list when it is set but empty.
+ */
+function readDomainList(env: NodeJS.ProcessEnv, name: string): string[] | undefined {
+  const raw = env[name];
+  if (raw === undefined) {
+    return undefined;
+  }
+
+  const patterns = raw.split(',').map(pattern => pattern.trim().toLowerCase()).filter(Boolean);
+  for (const pattern of patterns) {
+    if (!/^[a-z0-9*-]+(\.[a-z0-9*-]+)*$/.test(pattern)) {
+      throw new Error(`${name} contains an invalid domain pattern: ${pattern}`);
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Read the domain rules set by the variables with a given suffix
+ */
+function readDomainRules(env: NodeJS.ProcessEnv, suffix: string = ''): Partial<DomainRules> {
+  const rules: Partial<DomainRules> = {};
+  const blocklist = readDomainList(env, `DOMAIN_BLOCKLIST${suffix}`);
+  const allowlist = readDomainList(env, `DOMAIN_ALLOWLIST${suffix}`);
+  const injectExclusions = readBoolean(env, `DOMAIN_POLICY_INJECT_EXCLUSIONS${suffix}`);
+
+  if (blocklist) {
+    rules.blocklist = blocklist;
+  }
+  if (allowlist) {
+    rules.allowlist = allowlist;
+  }
+  if (injectExclusions !== undefined) {
+    rules.injectExclusions = injectExclusions;
+  }
+  return rules;
+}
+
+/**
+ * Load the server configuration
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const cacheStore = readChoice(env, 'SEARCH_CACHE_STORE', CACHE_STORE_TYPES, 'memory');
+
+  return {
+    cache: {
+      store: cacheStore,
+      ttlMs: readInteger(env, 'SEARCH_CACHE_TTL', 300) * 1000,
+      maxEntries: readInteger(env, 'SEARCH_CACHE_MAX_ENTRIES', 500),
+      maxBytes: readInteger(env, 'SEARCH_CACHE_MAX_BYTES'),
+      path: env.SEARCH_CACHE_PATH?.trim() || undefined
+    },
+    bulk: {
+      concurrency: Math.max(1, readInteger(env, 'BULK_SEARCH_CONCURRENCY', 5))
+    },
+    retry: {
+      maxAttempts: Math.max(1, readInteger(env, 'SEARCH_RETRY_MAX_ATTEMPTS', 3)),
+      baseDelayMs: readInteger(env, 'SEARCH_RETRY_BASE_DELAY', 500),
+      maxDelayMs: readInteger(env, 'SEARCH_RETRY_MAX_DELAY', 10000)
+    },
+    circuitBreaker: {
+      failureRateThreshold: Math.min(100, readInteger(env, 'CIRCUIT_BREAKER_FAILURE_RATE', 50)) / 100,
+      minimumRequests: Math.max(1, readInteger(env, 'CIRCUIT_BREAKER_MIN_REQUESTS', 5)),
+      windowMs: readInteger(env, 'CIRCUIT_BREAKER_WINDOW', 60000),
+      openDurationMs: readInteger(env, 'CIRCUIT_BREAKER_OPEN_DURATION', 30000)
+    },
+    rateLimit: {
+      mode: readChoice(env, 'RATE_LIMIT_MODE', RATE_LIMIT_MODES, 'sliding_window'),
+      maxRequests: Math.max(1, readInteger(env, 'RATE_LIMIT_RPM', 100)),
+      windowMs: Math.max(1, readInteger(env, 'RATE_LIMIT_WINDOW', 60000)),
+      burstSize: readInteger(env, 'RATE_LIMIT_BURST'),
+      maxWaitMs: readInteger(env, 'RATE_LIMIT_MAX_WAIT', 0)
+    },
+    clientRateLimit: {
+      store: readChoice(env, 'CLIENT_RATE_LIMIT_STORE', CACHE_STORE_TYPES, 'memory'),
+      path: env.CLIENT_RATE_LIMIT_PATH?.trim() || undefined,
+      mode: readChoice(env, 'CLIENT_RATE_LIMIT_MODE', RATE_LIMIT_MODES, 'sliding_window'),
+      maxRequests: readInteger(env, 'CLIENT_RATE_LIMIT_RPM', 60),
+      windowMs: Math.max(1, readInteger(env, 'CLIENT_RATE_LIMIT_WINDOW', 60000)),
+      burstSize: readInteger(env, 'CLIENT_RATE_LIMIT_BURST'),
+      quota: readInteger(env, 'CLIENT_QUOTA', 0),
+      quotaWindowMs: Math.max(1, readInteger(env, 'CLIENT_QUOTA_WINDOW', 86400000))
+    },
+    clientIdentity: {
+      apiKeys: (env.CLIENT_API_KEYS ?? '').split(',').map(key => key.trim()).filter(Boolean),
+      // Vercel's edge overwrites X-Forwarded-For, so its client IPs can be trusted unless turned off
+      trustProxy: readBoolean(env, 'TRUST_PROXY') ?? Boolean(env.VERCEL)
+    },
+    quota: {
+      floor: readInteger(env, 'QUOTA_FLOOR', 0),
+      action: readChoice(env, 'QUOTA_FLOOR_ACTION', QUOTA_FLOOR_ACTIONS, 'refuse'),
+      maxThrottleMs: readInteger(env, 'QUOTA_MAX_THROTTLE', 5000)
+    },
+    domainPolicy: {
+      blocklist: [],
+      allowlist: [],
+      injectExclusions: false,
+      ...readDomainRules(env),
+      tools: Object.fromEntries(POLICY_TOOLS.map(tool => [tool, readDomainRules(env, `_${tool.toUpperCase()}`)]))
+    },
+    fetch: {
+      maxBytes: Math.max(1024, readInteger(env, 'FETCH_MAX_BYTES', 2 * 1024 * 1024)),
+      timeoutMs: Math.max(1000, readInteger(env, 'FETCH_TIMEOUT', 10000)),
+      maxRedirects: readInteger(env, 'FETCH_MAX_REDIRECTS', 5),
+      allowPrivateHosts: readBoolean(env, 'FETCH_ALLOW_PRIVATE_HOSTS') ?? false,
+      // Pages share the search cache backend, in their own file directory or database
+      cache: {
+        store: cacheStore,
+        ttlMs: readInteger(env, 'FETCH_CACHE_TTL', 3600) * 1000,
+        maxEntries: readInteger(env, 'FETCH_CACHE_MAX_ENTRIES', 200),
+        maxBytes: readInteger(env, 'FETCH_CACHE_MAX_BYTES'),
+        path: env.FETCH_CACHE_PATH?.trim() || (cacheStore === 'sqlite' ? '.cache/page-cache.db' : '.cache/pages')
+      }
+    },
+    history: {
+      maxEntries: readInteger(env, 'SEARCH_HISTORY_MAX_ENTRIES', 100)
+    },
+    sessions: {
+      idleTimeoutMs: readInteger(env, 'MCP_SESSION_IDLE_TIMEOUT', 1800) * 1000
+    },
+    audit: env.AUDIT_LOG_PATH?.trim() ? {
+      path: env.AUDIT_LOG_PATH.trim(),
+      retentionMs: readInteger(env, 'AUDIT_LOG_RETENTION_DAYS', 30) * 24 * 60 * 60 * 1000,
+      maxEntries: readInteger(env, 'AUDIT_LOG_MAX_ENTRIES', 10000),
+      logResponses: readBoolean(env, 'AUDIT_LOG_RESPONSES') ?? true
+    } : undefined
+  };
+}
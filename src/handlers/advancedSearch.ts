@@ -1,6 +1,14 @@
 import { OpenWebNinjaService } from '../services/openWebNinja.js';
-import { validateSearchParams, sanitizeQuery, ValidationError } from '../utils/validation.js';
+import { PageFetcher, TOP_RESULT_MAX_CHARS } from '../services/pageFetcher.js';
+import { WebSearchResponse } from '../types/api.js';
+import { validateSearchParams, parseSearchQuery, ValidationError } from '../utils/validation.js';
 import { RateLimiter } from '../utils/rateLimiter.js';
+import { SearchHistory } from '../resources/searchHistory.js';
+import { ToolCallContext, UNKNOWN_CALLER } from '../types/mcp.js';
+import { formatSearchResponse, describeParsedQuery, describeAppearances, describeFiltered, describeRelevance } from '../utils/formatters.js';
+import { highlightSnippet } from '../utils/relevance.js';
+import { buildOperators } from '../utils/advancedQuery.js';
+import { formatFetchedPage } from './fetchPage.js';
 
 /**
  * Handler for advanced web search tool with Google operators
@@ -8,16 +16,25 @@ import { RateLimiter } from '../utils/rateLimiter.js';
 export class AdvancedSearchHandler {
   private apiService: OpenWebNinjaService;
   private rateLimiter: RateLimiter;
+  private pageFetcher: PageFetcher;
+  private history?: SearchHistory;
 
-  constructor(apiService: OpenWebNinjaService, rateLimiter: RateLimiter) {
+  constructor(apiService: OpenWebNinjaService, rateLimiter: RateLimiter, pageFetcher: PageFetcher, history?: SearchHistory) {
     this.apiService = apiService;
     this.rateLimiter = rateLimiter;
+    this.pageFetcher = pageFetcher;
+    this.history = history;
   }
 
-  async handle(params: any): Promise<any> {
+  async handle(params: any, context: ToolCallContext = {}): Promise<any> {
     try {
-      // Check rate limit
-      if (!this.rateLimiter.canMakeRequest()) {
+      // Validate and sanitize input
+      const validatedParams = validateSearchParams(params);
+      const parsedQuery = parseSearchQuery(validatedParams.query);
+      validatedParams.query = parsedQuery.query;
+
+      // Take a rate limit slot, waiting for one if the limiter is configured to
+      if (!(await this.rateLimiter.acquire())) {
         const resetTime = this.rateLimiter.getTimeUntilReset();
         return {
           content: [{
@@ -28,13 +45,6 @@ export class AdvancedSearchHandler {
         };
       }
 
-      // Validate and sanitize input
-      const validatedParams = validateSearchParams(params);
-      validatedParams.query = sanitizeQuery(validatedParams.query);
-
-      // Record the request
-      this.rateLimiter.recordRequest();
-
       // Perform the advanced search
       const result = await this.apiService.advancedSearch(validatedParams);
 
@@ -42,29 +52,54 @@ export class AdvancedSearchHandler {
         return {
           content: [{
             type: "text",
-            text: `Advanced search failed: ${result.error?.message || 'Unknown error'}`
+            text: `Advanced search failed: ${result.error?.message || 'Unknown error'}${result.error?.retries ? ` (gave up after ${result.error.retries + 1} attempts)` : ''}`
           }],
           isError: true
         };
       }
 
-      if (!result.data || result.data.results.length === 0) {
+      // Report how the query was understood alongside the results
+      const data: WebSearchResponse = {
+        ...(result.data ?? { results: [], query: validatedParams.query }),
+        parsed_query: parsedQuery
+      };
+
+      if (validatedParams.fetch_top_n && data.results.length > 0) {
+        data.pages = await this.pageFetcher.fetchTopResults(data, validatedParams.fetch_top_n, 'advanced_web_search', TOP_RESULT_MAX_CHARS);
+      }
+
+      this.history?.record({
+        caller: context.caller ?? UNKNOWN_CALLER,
+        tool: 'advanced_web_search',
+        query: validatedParams.query,
+        arguments: params,
+        result_count: data.results.length,
+        data: data,
+        markdown: this.formatAdvancedSearchResults(data, validatedParams)
+      });
+
+      // Other formats render an empty result set, so pipelines can still parse it
+      if (data.results.length === 0 && (!validatedParams.format || validatedParams.format === 'markdown')) {
         return {
           content: [{
             type: "text",
-            text: `No results found for advanced search: "${this.buildSearchDescription(validatedParams)}"`
-          }]
+            text: [`No results found for advanced search: "${this.buildSearchDescription(validatedParams)}"`, describeFiltered(data.filtered)].filter(Boolean).join('\n\n')
+          }],
+          structuredContent: data
         };
       }
 
       // Format the results
-      const formattedResults = this.formatAdvancedSearchResults(result.data, validatedParams);
+      const formattedResults = validatedParams.format && validatedParams.format !== 'markdown'
+        ? formatSearchResponse(data, validatedParams.format)
+        : this.formatAdvancedSearchResults(data, validatedParams);
       
       return {
         content: [{
           type: "text",
           text: formattedResults
-        }]
+        }],
+        structuredContent: data
       };
 
     } catch (error) {
@@ -90,15 +125,7 @@ export class AdvancedSearchHandler {
 
   private buildSearchDescription(params: any): string {
     let description = params.query;
-    const filters = [];
-    
-    if (params.site_restrict) {
-      filters.push(`site:${params.site_restrict}`);
-    }
-    
-    if (params.file_type) {
-      filters.push(`filetype:${params.file_type}`);
-    }
+    const filters = buildOperators(params);
     
     if (params.date_range) {
       filters.push(`date range: ${params.date_range}`);
@@ -112,18 +139,59 @@ export class AdvancedSearchHandler {
   }
 
   private formatAdvancedSearchResults(data: any, params: any): string {
-    const { results, query, total_results } = data;
+    const { results, query, total_results, cached, cache_age, retries, next_cursor, parsed_query } = data;
     
     let output = `# Advanced Web Search Results\n\n`;
     
     // Show search parameters
     output += `## Search Parameters\n`;
     output += `- **Base Query:** "${params.query}"\n`;
+
+    const interpretation = parsed_query && describeParsedQuery(parsed_query);
+    if (interpretation) {
+      output += `- **Interpreted as:** ${interpretation}\n`;
+    }
     
     if (params.site_restrict) {
       output += `- **Site Restriction:** ${params.site_restrict}\n`;
     }
     
+    if (params.sites) {
+      output += `- **Sites:** ${params.sites.join(', ')}\n`;
+    }
+
+    if (params.exclude_sites) {
+      output += `- **Excluded Sites:** ${params.exclude_sites.join(', ')}\n`;
+    }
+
+    if (params.exact_phrase) {
+      output += `- **Exact Phrase:** "${params.exact_phrase}"\n`;
+    }
+
+    if (params.any_of) {
+      output += `- **Any Of:** ${params.any_of.join(', ')}\n`;
+    }
+
+    if (params.exclude_terms) {
+      output += `- **Excluded Terms:** ${params.exclude_terms.join(', ')}\n`;
+    }
+
+    if (params.intitle) {
+      output += `- **In Title:** ${params.intitle}\n`;
+    }
+
+    if (params.inurl) {
+      output += `- **In URL:** ${params.inurl}\n`;
+    }
+
+    if (params.intext) {
+      output += `- **In Text:** ${params.intext}\n`;
+    }
+
+    if (params.related) {
+      output += `- **Related To:** ${params.related}\n`;
+    }
+    
     if (params.file_type) {
       output += `- **File Type:** ${params.file_type}\n`;
     }
@@ -131,14 +199,43 @@ export class AdvancedSearchHandler {
     if (params.date_range) {
       output += `- **Date Range:** ${params.date_range}\n`;
     }
+
+    if (params.date_from || params.date_to) {
+      output += `- **Dates:** ${params.date_from ?? 'any'} to ${params.date_to ?? 'now'}\n`;
+    }
     
     if (params.region) {
       output += `- **Region:** ${params.region}\n`;
     }
+
+    if (params.language) {
+      output += `- **Language:** ${params.language}\n`;
+    }
+
+    if (params.location) {
+      output += `- **Location:** ${params.location}\n`;
+    }
+
+    if (params.device) {
+      output += `- **Device:** ${params.device}\n`;
+    }
     
     output += `\n**Final Query:** "${query}"\n\n`;
     output += `Found ${total_results || results.length} results\n\n`;
 
+    if (cached) {
+      output += `*Served from cache (${cache_age}s old)*\n\n`;
+    }
+
+    if (retries) {
+      output += `*Succeeded after ${retries} ${retries === 1 ? 'retry' : 'retries'}*\n\n`;
+    }
+
+    const filteredNote = describeFiltered(data.filtered);
+    if (filteredNote) {
+      output += `*${filteredNote}*\n\n`;
+    }
+
     // Group results by domain if site restriction is used
     if (params.site_restrict) {
       output += `## Results from ${params.site_restrict}\n\n`;
@@ -146,12 +243,16 @@ export class AdvancedSearchHandler {
       output += `## Search Results\n\n`;
     }
 
-    results.forEach((result: any, index: number) => {
-      output += `### ${index + 1}. ${result.title}\n`;
+    results.forEach((result: any) => {
+      output += `### ${result.position}. ${result.title}\n`;
       output += `**URL:** ${result.url}\n`;
       
       if (result.snippet) {
-        output += `**Snippet:** ${result.snippet}\n`;
+        output += `**Snippet:** ${highlightSnippet(result.snippet, result.relevance?.matched_terms ?? [])}\n`;
+      }
+      const relevance = describeRelevance(result);
+      if (relevance) {
+        output += `**Relevance:** ${relevance}\n`;
       }
       
       if (result.domain) {
@@ -161,6 +262,11 @@ export class AdvancedSearchHandler {
       if (result.date) {
         output += `**Date:** ${result.date}\n`;
       }
+
+      const duplicates = describeAppearances(result, query);
+      if (duplicates) {
+        output += `**Also at:** ${duplicates}\n`;
+      }
       
       // Highlight file type if searching for specific types
       if (params.file_type && result.url) {
@@ -170,9 +276,19 @@ export class AdvancedSearchHandler {
         }
       }
       
+      const fetched = data.pages?.find((entry: any) => entry.position === result.position);
+      if (fetched?.page) {
+        output += `\n${formatFetchedPage(fetched.page, 3)}`;
+      } else if (fetched) {
+        output += `**Page:** could not be fetched (${fetched.error})\n`;
+      }
       output += `\n---\n\n`;
     });
 
+    if (next_cursor) {
+      output += `**More results:** call again with the same arguments and \`cursor: "${next_cursor}"\`\n\n`;
+    }
+
     // Add search tips if no results
     if (results.length === 0) {
       output += `## Search Tips\n\n`;
@@ -184,13 +300,15 @@ export class AdvancedSearchHandler {
 
     // Add advanced search operators reference
     output += `\n## Advanced Search Operators Reference\n\n`;
-    output += `- **site:domain.com** - Search within a specific website\n`;
-    output += `- **filetype:pdf** - Find specific file types\n`;
-    output += `- **intitle:keyword** - Find pages with keyword in title\n`;
-    output += `- **inurl:keyword** - Find pages with keyword in URL\n`;
-    output += `- **"exact phrase"** - Search for exact phrase\n`;
-    output += `- **keyword1 OR keyword2** - Search for either term\n`;
-    output += `- **keyword -exclude** - Exclude specific terms\n`;
+    output += `- **site:domain.com** (\`sites\`, \`exclude_sites\`) - Search within a specific website\n`;
+    output += `- **filetype:pdf** (\`file_type\`) - Find specific file types\n`;
+    output += `- **intitle:keyword** (\`intitle\`) - Find pages with keyword in title\n`;
+    output += `- **inurl:keyword** (\`inurl\`) - Find pages with keyword in URL\n`;
+    output += `- **intext:keyword** (\`intext\`) - Find pages with keyword in the text\n`;
+    output += `- **related:domain.com** (\`related\`) - Find sites similar to a domain\n`;
+    output += `- **"exact phrase"** (\`exact_phrase\`) - Search for exact phrase\n`;
+    output += `- **keyword1 OR keyword2** (\`any_of\`) - Search for either term\n`;
+    output += `- **keyword -exclude** (\`exclude_terms\`) - Exclude specific terms\n`;
 
     return output;
   }
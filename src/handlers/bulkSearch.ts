@@ -1,6 +1,11 @@
 import { OpenWebNinjaService } from '../services/openWebNinja.js';
-import { validateBulkSearchParams, sanitizeQuery, ValidationError } from '../utils/validation.js';
+import { BulkSearchResponse } from '../types/api.js';
+import { validateBulkSearchParams, parseSearchQuery, ValidationError } from '../utils/validation.js';
 import { RateLimiter } from '../utils/rateLimiter.js';
+import { SearchHistory } from '../resources/searchHistory.js';
+import { ToolCallContext, UNKNOWN_CALLER } from '../types/mcp.js';
+import { describeAppearances, describeFiltered, describeParsedQuery, describeRelevance, formatBulkSearchResponse } from '../utils/formatters.js';
+import { highlightSnippet } from '../utils/relevance.js';
 
 /**
  * Handler for bulk web search tool
@@ -8,31 +13,43 @@ import { RateLimiter } from '../utils/rateLimiter.js';
 export class BulkSearchHandler {
   private apiService: OpenWebNinjaService;
   private rateLimiter: RateLimiter;
+  private history?: SearchHistory;
 
-  constructor(apiService: OpenWebNinjaService, rateLimiter: RateLimiter) {
+  constructor(apiService: OpenWebNinjaService, rateLimiter: RateLimiter, history?: SearchHistory) {
     this.apiService = apiService;
     this.rateLimiter = rateLimiter;
+    this.history = history;
   }
 
-  async handle(params: any): Promise<any> {
+  async handle(params: any, context: ToolCallContext = {}): Promise<any> {
     try {
-      // Check rate limit (bulk searches count as multiple requests)
-      const estimatedRequests = params.queries?.length || 1;
-      if (this.rateLimiter.getCurrentCount() + estimatedRequests > 100) {
-        const resetTime = this.rateLimiter.getTimeUntilReset();
+      // Validate and sanitize input
+      const validatedParams = validateBulkSearchParams(params);
+      const parsedQueries = validatedParams.queries.map((query, index) => {
+        try {
+          return parseSearchQuery(query, 'queries');
+        } catch (error) {
+          throw error instanceof ValidationError ? new ValidationError(`Query at index ${index}: ${error.message}`, 'queries') : error;
+        }
+      });
+      validatedParams.queries = parsedQueries.map(parsed => parsed.query);
+
+      // Reserve one rate limit slot per query, all or nothing
+      const requestCount = validatedParams.queries.length;
+      if (!(await this.rateLimiter.acquire(requestCount))) {
+        const capacity = this.rateLimiter.getCapacity();
+        const resetTime = this.rateLimiter.getWaitTime(requestCount);
         return {
           content: [{
             type: "text",
-            text: `Rate limit would be exceeded with ${estimatedRequests} requests. Please wait ${Math.ceil(resetTime / 1000)} seconds or reduce the number of queries.`
+            text: requestCount > capacity
+              ? `Rate limit allows at most ${capacity} requests at once, but ${requestCount} queries were given. Please reduce the number of queries.`
+              : `Rate limit would be exceeded with ${requestCount} requests. Please wait ${Math.ceil(resetTime / 1000)} seconds or reduce the number of queries.`
           }],
           isError: true
         };
       }
 
-      // Validate and sanitize input
-      const validatedParams = validateBulkSearchParams(params);
-      validatedParams.queries = validatedParams.queries.map(query => sanitizeQuery(query));
-
       // Perform the bulk search
       const result = await this.apiService.bulkSearch(validatedParams);
 
@@ -51,18 +68,40 @@ export class BulkSearchHandler {
           content: [{
             type: "text",
             text: "No search results returned from bulk search"
-          }]
+          }],
+          structuredContent: result.data ?? { searches: [] }
         };
       }
 
+      // Report how each query was understood alongside its results
+      const data: BulkSearchResponse = {
+        ...result.data,
+        searches: result.data.searches.map((search, index) => ({ ...search, parsed_query: parsedQueries[index] }))
+      };
+
+      this.history?.record({
+        caller: context.caller ?? UNKNOWN_CALLER,
+        tool: 'bulk_web_search',
+        query: validatedParams.queries.join(' | '),
+        arguments: params,
+        result_count: data.searches.reduce((total, search) => total + search.results.length, 0),
+        data: data,
+        markdown: this.formatBulkSearchResults(data)
+      });
+
       // Format the results
-      const formattedResults = this.formatBulkSearchResults(result.data);
+      const formattedResults = validatedParams.format && validatedParams.format !== 'markdown'
+        ? formatBulkSearchResponse(data, validatedParams.format)
+        : this.formatBulkSearchResults(data);
       
       return {
         content: [{
           type: "text",
           text: formattedResults
-        }]
+        }],
+        structuredContent: data,
+        // Only a batch in which every query failed is reported as a tool error
+        ...(data.searches.every(search => search.status === 'error') ? { isError: true } : {})
       };
 
     } catch (error) {
@@ -94,11 +133,25 @@ export class BulkSearchHandler {
 
     searches.forEach((search: any, searchIndex: number) => {
       output += `## Query ${searchIndex + 1}: "${search.query}"\n\n`;
+      const interpretation = search.parsed_query && describeParsedQuery(search.parsed_query);
+      if (interpretation) {
+        output += `**Interpreted as:** ${interpretation}\n\n`;
+      }
       
-      if (search.results.length === 0) {
-        output += `*No results found*\n\n`;
+      if (search.status === 'error') {
+        output += `*Search failed: ${search.error}${search.retries ? ` (gave up after ${search.retries + 1} attempts)` : ''}*\n\n`;
+      } else if (search.results.length === 0 && data.duplicates_removed && search.total_results) {
+        output += `*No new results; all were found by earlier queries*\n\n`;
+      } else if (search.results.length === 0) {
+        const filteredNote = describeFiltered(search.filtered);
+        output += `*No results found${filteredNote ? `; ${filteredNote}` : ''}*\n\n`;
       } else {
-        output += `Found ${search.total_results || search.results.length} results\n\n`;
+        output += `Found ${search.total_results || search.results.length} results${search.cached ? ' (cached)' : ''}\n\n`;
+
+        const filteredNote = describeFiltered(search.filtered);
+        if (filteredNote) {
+          output += `*${filteredNote}*\n\n`;
+        }
         
         // Show top 3 results for each query to keep output manageable
         const topResults = search.results.slice(0, 3);
@@ -107,11 +160,19 @@ export class BulkSearchHandler {
           output += `### ${index + 1}. ${result.title}\n`;
           output += `**URL:** ${result.url}\n`;
           if (result.snippet) {
-            output += `**Snippet:** ${result.snippet.substring(0, 150)}${result.snippet.length > 150 ? '...' : ''}\n`;
+            output += `**Snippet:** ${highlightSnippet(result.snippet, result.relevance?.matched_terms ?? [], 150)}\n`;
+          }
+          const relevance = describeRelevance(result);
+          if (relevance) {
+            output += `**Relevance:** ${relevance}\n`;
           }
           if (result.domain) {
             output += `**Domain:** ${result.domain}\n`;
           }
+          const duplicates = describeAppearances(result, search.query);
+          if (duplicates) {
+            output += `**Also found at:** ${duplicates}\n`;
+          }
           output += `\n`;
         });
         
@@ -125,11 +186,28 @@ export class BulkSearchHandler {
 
     // Add summary
     const totalResults = searches.reduce((sum: number, search: any) => sum + search.results.length, 0);
+    const failedSearches = searches.filter((s: any) => s.status === 'error');
     output += `## Summary\n\n`;
     output += `- **Total Queries:** ${searches.length}\n`;
     output += `- **Total Results:** ${totalResults}\n`;
-    output += `- **Successful Queries:** ${searches.filter((s: any) => s.results.length > 0).length}\n`;
-    output += `- **Failed Queries:** ${searches.filter((s: any) => s.results.length === 0).length}\n`;
+    output += `- **Successful Queries:** ${searches.filter((s: any) => s.status === 'success' && s.results.length > 0).length}\n`;
+    output += `- **Queries Without Results:** ${searches.filter((s: any) => s.status === 'success' && s.results.length === 0).length}\n`;
+    output += `- **Failed Queries:** ${failedSearches.length}\n`;
+    if (data.duplicates_removed) {
+      output += `- **Duplicates Merged:** ${data.duplicates_removed}\n`;
+    }
+
+    const filteredResults = searches.reduce((sum: number, search: any) => sum + (search.filtered ? search.filtered.blocked + search.filtered.not_allowed : 0), 0);
+    if (filteredResults > 0) {
+      output += `- **Hidden by Domain Policy:** ${filteredResults}\n`;
+    }
+
+    if (failedSearches.length > 0) {
+      output += `\n### Failed Queries\n\n`;
+      failedSearches.forEach((search: any) => {
+        output += `- "${search.query}": ${search.error}\n`;
+      });
+    }
 
     return output;
   }
@@ -0,0 +1,96 @@
+import { PageFetcher } from '../services/pageFetcher.js';
+import { validateFetchPageParams, ValidationError } from '../utils/validation.js';
+import { FetchedPage } from '../types/api.js';
+
+/**
+ * Handler for the fetch page tool. Pages are downloaded from the sites
+ * themselves, so this tool spends no search API quota.
+ */
+export class FetchPageHandler {
+  private pageFetcher: PageFetcher;
+
+  constructor(pageFetcher: PageFetcher) {
+    this.pageFetcher = pageFetcher;
+  }
+
+  async handle(params: any): Promise<any> {
+    try {
+      const validatedParams = validateFetchPageParams(params);
+      const result = await this.pageFetcher.fetchPage(validatedParams);
+
+      if (!result.success || !result.data) {
+        return {
+          content: [{
+            type: "text",
+            text: `Fetch failed: ${result.error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: formatFetchedPage(result.data)
+        }],
+        structuredContent: result.data
+      };
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `Validation error: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+}
+
+/**
+ * Render a fetched page as markdown: metadata first, then the content
+ */
+export function formatFetchedPage(page: FetchedPage, headingLevel: number = 1): string {
+  let output = `${'#'.repeat(headingLevel)} ${page.title || page.final_url}\n\n`;
+  output += `**URL:** ${page.final_url}\n`;
+
+  if (page.redirects?.length) {
+    output += `**Redirected from:** ${page.url}\n`;
+  }
+  if (page.canonical_url && page.canonical_url !== page.final_url) {
+    output += `**Canonical URL:** ${page.canonical_url}\n`;
+  }
+  if (page.published_date) {
+    output += `**Published:** ${page.published_date}\n`;
+  }
+  if (page.author) {
+    output += `**Author:** ${page.author}\n`;
+  }
+  if (page.description) {
+    output += `**Description:** ${page.description}\n`;
+  }
+  output += `**Type:** ${page.content_type}, ${page.word_count} words${page.cached ? ` (cached ${page.cache_age}s ago)` : ''}\n\n`;
+
+  if (page.note) {
+    output += `*${page.note}*\n`;
+    return output;
+  }
+
+  output += `---\n\n${page.content || '*No readable text found*'}\n`;
+  if (page.truncated) {
+    output += `\n*Content truncated*\n`;
+  }
+
+  return output;
+}
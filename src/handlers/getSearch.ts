@@ -0,0 +1,81 @@
+import { AuditLog } from '../audit/auditLog.js';
+import { ToolCallContext, UNKNOWN_CALLER } from '../types/mcp.js';
+import { validateGetSearchParams, ValidationError } from '../utils/validation.js';
+import { AuditRecord } from '../types/api.js';
+
+/**
+ * Handler for the get search tool. Re-opens one of the caller's audited calls
+ * from the log, without calling the search API again.
+ */
+export class GetSearchHandler {
+  private auditLog: AuditLog;
+
+  constructor(auditLog: AuditLog) {
+    this.auditLog = auditLog;
+  }
+
+  async handle(params: any, context: ToolCallContext = {}): Promise<any> {
+    try {
+      const validatedParams = validateGetSearchParams(params);
+      const record = await this.auditLog.get(validatedParams.id);
+
+      // Another caller's search is reported as missing, so ids can't be probed
+      if (!record || record.caller !== (context.caller ?? UNKNOWN_CALLER)) {
+        return {
+          content: [{
+            type: "text",
+            text: `Search not found: ${validatedParams.id}. It may have expired from the audit log.`
+          }],
+          isError: true
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: this.formatRecord(record)
+        }],
+        structuredContent: record
+      };
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `Validation error: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  private formatRecord(record: AuditRecord): string {
+    let output = `# ${record.tool}${record.query ? `: ${record.query}` : ''}\n\n`;
+    output += `**Id:** ${record.id}\n`;
+    output += `**Time:** ${record.timestamp}\n`;
+    output += `**Status:** ${record.status}\n`;
+    output += `**Latency:** ${record.latency_ms}ms\n`;
+    if (record.result_count !== undefined) {
+      output += `**Results:** ${record.result_count}\n`;
+    }
+    if (record.upstream) {
+      output += `**Upstream:** ${record.upstream}${record.retries ? ` (${record.retries} ${record.retries === 1 ? 'retry' : 'retries'})` : ''}\n`;
+    }
+    output += `**Arguments:** \`${JSON.stringify(record.arguments)}\`\n\n`;
+
+    output += `---\n\n`;
+    output += record.response ? `${record.response.text}\n` : `*The response was not logged (AUDIT_LOG_RESPONSES=false)*\n`;
+
+    return output;
+  }
+}
@@ -0,0 +1,161 @@
+import { OpenWebNinjaService } from '../services/openWebNinja.js';
+import { validateMultiQuerySearchParams, parseSearchQuery, ValidationError } from '../utils/validation.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { SearchHistory } from '../resources/searchHistory.js';
+import { ToolCallContext, UNKNOWN_CALLER } from '../types/mcp.js';
+import { describeFiltered, describeParsedQuery, describeRelevance, formatMultiQuerySearchResponse } from '../utils/formatters.js';
+import { highlightSnippet } from '../utils/relevance.js';
+import { MultiQuerySearchResponse } from '../types/api.js';
+
+/**
+ * Handler for the multi-query search tool
+ */
+export class MultiQuerySearchHandler {
+  private apiService: OpenWebNinjaService;
+  private rateLimiter: RateLimiter;
+  private history?: SearchHistory;
+
+  constructor(apiService: OpenWebNinjaService, rateLimiter: RateLimiter, history?: SearchHistory) {
+    this.apiService = apiService;
+    this.rateLimiter = rateLimiter;
+    this.history = history;
+  }
+
+  async handle(params: any, context: ToolCallContext = {}): Promise<any> {
+    try {
+      // Validate and sanitize input
+      const validatedParams = validateMultiQuerySearchParams(params);
+      const parsedQueries = validatedParams.queries.map((query, index) => {
+        try {
+          return parseSearchQuery(query, 'queries');
+        } catch (error) {
+          throw error instanceof ValidationError ? new ValidationError(`Query at index ${index}: ${error.message}`, 'queries') : error;
+        }
+      });
+      validatedParams.queries = parsedQueries.map(parsed => parsed.query);
+
+      // Reserve one rate limit slot per variant, all or nothing
+      const requestCount = validatedParams.queries.length;
+      if (!(await this.rateLimiter.acquire(requestCount))) {
+        const capacity = this.rateLimiter.getCapacity();
+        const resetTime = this.rateLimiter.getWaitTime(requestCount);
+        return {
+          content: [{
+            type: "text",
+            text: requestCount > capacity
+              ? `Rate limit allows at most ${capacity} requests at once, but ${requestCount} query variants were given. Please reduce the number of variants.`
+              : `Rate limit would be exceeded with ${requestCount} requests. Please wait ${Math.ceil(resetTime / 1000)} seconds or reduce the number of variants.`
+          }],
+          isError: true
+        };
+      }
+
+      const result = await this.apiService.multiQuerySearch(validatedParams);
+
+      if (!result.success || !result.data) {
+        return {
+          content: [{
+            type: "text",
+            text: `Multi-query search failed: ${result.error?.message || 'Unknown error'}`
+          }],
+          isError: true
+        };
+      }
+
+      // Report how each variant was understood alongside its summary
+      const data: MultiQuerySearchResponse = {
+        ...result.data,
+        variants: result.data.variants.map((variant, index) => ({ ...variant, parsed_query: parsedQueries[index] }))
+      };
+
+      this.history?.record({
+        caller: context.caller ?? UNKNOWN_CALLER,
+        tool: 'multi_query_search',
+        query: validatedParams.queries.join(' | '),
+        arguments: params,
+        result_count: data.results.length,
+        data: data,
+        markdown: this.formatMultiQueryResults(data)
+      });
+
+      const formattedResults = validatedParams.format && validatedParams.format !== 'markdown'
+        ? formatMultiQuerySearchResponse(data, validatedParams.format)
+        : this.formatMultiQueryResults(data);
+
+      return {
+        content: [{
+          type: "text",
+          text: formattedResults
+        }],
+        structuredContent: data,
+        // Only a search in which every variant failed is reported as a tool error
+        ...(data.variants.every(variant => variant.status === 'error') ? { isError: true } : {})
+      };
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `Validation error: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  private formatMultiQueryResults(data: MultiQuerySearchResponse): string {
+    const { results, variants, total_results, rrf_k } = data;
+
+    let output = `# Multi-Query Search Results\n\n`;
+    output += `Fused ${variants.length} query variants with reciprocal rank fusion (k=${rrf_k}) into ${total_results} unique results\n\n`;
+
+    output += `## Variants\n\n`;
+    variants.forEach((variant, index) => {
+      const weight = variant.weight !== 1 ? ` (weight ${variant.weight})` : '';
+      const filteredNote = describeFiltered(variant.filtered);
+      output += variant.status === 'error'
+        ? `${index + 1}. "${variant.query}"${weight} - failed: ${variant.error}\n`
+        : `${index + 1}. "${variant.query}"${weight} - ${variant.result_count} results${variant.cached ? ' (cached)' : ''}${filteredNote ? `; ${filteredNote}` : ''}\n`;
+      const interpretation = variant.parsed_query && describeParsedQuery(variant.parsed_query);
+      if (interpretation) {
+        output += `   *Interpreted as: ${interpretation}*\n`;
+      }
+    });
+    output += `\n`;
+
+    if (results.length === 0) {
+      output += `*No results found*\n`;
+      return output;
+    }
+
+    output += `## Results\n\n`;
+    results.forEach(result => {
+      output += `### ${result.position}. ${result.title}\n`;
+      output += `**URL:** ${result.url}\n`;
+      if (result.snippet) {
+        output += `**Snippet:** ${highlightSnippet(result.snippet, result.relevance?.matched_terms ?? [])}\n`;
+      }
+      const relevance = describeRelevance(result);
+      if (relevance) {
+        output += `**Relevance:** ${relevance}\n`;
+      }
+      if (result.domain) {
+        output += `**Domain:** ${result.domain}\n`;
+      }
+      output += `**Found by:** ${result.appearances.map(appearance => `"${appearance.query}" #${appearance.position}`).join(', ')} (score ${result.score})\n`;
+      output += `\n---\n\n`;
+    });
+
+    return output;
+  }
+}
@@ -0,0 +1,48 @@
+import { OpenWebNinjaService } from '../services/openWebNinja.js';
+import { QuotaStatus } from '../utils/quotaTracker.js';
+
+/**
+ * Handler for the quota status tool. Reads tracked state only, so it never
+ * spends quota or takes a rate limit slot.
+ */
+export class QuotaStatusHandler {
+  private apiService: OpenWebNinjaService;
+
+  constructor(apiService: OpenWebNinjaService) {
+    this.apiService = apiService;
+  }
+
+  async handle(_params: any): Promise<any> {
+    const status = this.apiService.getQuotaStatus();
+
+    return {
+      content: [{
+        type: "text",
+        text: this.formatQuotaStatus(status)
+      }],
+      structuredContent: status
+    };
+  }
+
+  private formatQuotaStatus(status: QuotaStatus): string {
+    let output = `# Upstream Quota\n\n`;
+
+    if (status.state === 'unknown') {
+      output += `No quota reported yet; it is read from the API's response headers after the first search.\n\n`;
+    } else {
+      output += `**State:** ${status.state}\n`;
+      output += `**Remaining:** ${status.remaining}${status.limit !== undefined ? ` of ${status.limit}` : ''}\n`;
+      if (status.reset_at) {
+        output += `**Resets:** ${status.reset_at} (in ${status.reset_in_seconds}s)\n`;
+      }
+      output += `**Last updated:** ${status.updated_at}\n`;
+    }
+
+    output += `**Calls today:** ${status.calls_today}\n`;
+    if (status.floor > 0) {
+      output += `**Reserve floor:** ${status.floor}\n`;
+    }
+
+    return output;
+  }
+}
@@ -0,0 +1,114 @@
+import { AuditLog } from '../audit/auditLog.js';
+import { ToolCallContext, UNKNOWN_CALLER } from '../types/mcp.js';
+import { validateSearchHistoryParams, ValidationError } from '../utils/validation.js';
+import { AuditSummary, SearchHistoryResponse } from '../types/api.js';
+
+const DEFAULT_HISTORY_LIMIT = 20;
+
+/**
+ * Handler for the search history tool. Lists the caller's own audited calls,
+ * so one client can't read another's searches.
+ */
+export class SearchHistoryHandler {
+  private auditLog: AuditLog;
+
+  constructor(auditLog: AuditLog) {
+    this.auditLog = auditLog;
+  }
+
+  async handle(params: any, context: ToolCallContext = {}): Promise<any> {
+    try {
+      const validatedParams = validateSearchHistoryParams(params);
+      const caller = context.caller ?? UNKNOWN_CALLER;
+      const query = validatedParams.query?.toLowerCase();
+
+      const searches = await this.auditLog.list(record =>
+        record.caller === caller &&
+        (!validatedParams.tool || record.tool === validatedParams.tool) &&
+        (!query || (record.query?.toLowerCase().includes(query) ?? false))
+      );
+
+      let start = 0;
+      if (validatedParams.cursor) {
+        start = searches.findIndex(record => record.id === validatedParams.cursor) + 1;
+        if (start === 0) {
+          throw new ValidationError('cursor does not match a search in your history', 'cursor');
+        }
+      }
+
+      const limit = validatedParams.limit ?? DEFAULT_HISTORY_LIMIT;
+      const page = searches.slice(start, start + limit);
+      const response: SearchHistoryResponse = {
+        searches: page,
+        ...(start + limit < searches.length ? { next_cursor: page[page.length - 1].id } : {})
+      };
+
+      return {
+        content: [{
+          type: "text",
+          text: this.formatHistory(response)
+        }],
+        structuredContent: response
+      };
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return {
+          content: [{
+            type: "text",
+            text: `Validation error: ${error.message}`
+          }],
+          isError: true
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+  }
+
+  private formatHistory(response: SearchHistoryResponse): string {
+    let output = `# Search History\n\n`;
+
+    if (response.searches.length === 0) {
+      output += `No searches found.\n`;
+      return output;
+    }
+
+    response.searches.forEach((record, index) => {
+      output += `${index + 1}. ${describeSearch(record)}\n`;
+      output += `   ${record.timestamp} · id: \`${record.id}\`\n`;
+    });
+
+    if (response.next_cursor) {
+      output += `\n*More searches available: pass \`"cursor": "${response.next_cursor}"\` to list older ones.*\n`;
+    }
+
+    return output;
+  }
+}
+
+/**
+ * One-line description of an audited call: tool, query and outcome
+ */
+function describeSearch(record: AuditSummary): string {
+  let line = `**${record.tool}**${record.query ? ` "${record.query}"` : ''}`;
+
+  if (record.status === 'error') {
+    line += ` — failed${record.error ? `: ${record.error.split('\n')[0]}` : ''}`;
+  } else {
+    const details = [
+      ...(record.result_count !== undefined ? [`${record.result_count} result${record.result_count === 1 ? '' : 's'}`] : []),
+      ...(record.upstream ? [record.upstream] : []),
+      ...(record.retries ? [`${record.retries} ${record.retries === 1 ? 'retry' : 'retries'}`] : [])
+    ];
+    line += details.length > 0 ? ` — ${details.join(', ')}` : '';
+  }
+
+  return `${line} (${record.latency_ms}ms)`;
+}
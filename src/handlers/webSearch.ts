@@ -1,6 +1,13 @@
 import { OpenWebNinjaService } from '../services/openWebNinja.js';
-import { validateSearchParams, sanitizeQuery, ValidationError } from '../utils/validation.js';
+import { PageFetcher, TOP_RESULT_MAX_CHARS } from '../services/pageFetcher.js';
+import { WebSearchResponse } from '../types/api.js';
+import { validateWebSearchParams, parseSearchQuery, ValidationError } from '../utils/validation.js';
 import { RateLimiter } from '../utils/rateLimiter.js';
+import { SearchHistory } from '../resources/searchHistory.js';
+import { ToolCallContext, UNKNOWN_CALLER } from '../types/mcp.js';
+import { formatSearchResponse, describeParsedQuery, describeAppearances, describeFiltered, describeRelevance } from '../utils/formatters.js';
+import { highlightSnippet } from '../utils/relevance.js';
+import { formatFetchedPage } from './fetchPage.js';
 
 /**
  * Handler for basic web search tool
@@ -8,16 +15,25 @@ import { RateLimiter } from '../utils/rateLimiter.js';
 export class WebSearchHandler {
   private apiService: OpenWebNinjaService;
   private rateLimiter: RateLimiter;
+  private pageFetcher: PageFetcher;
+  private history?: SearchHistory;
 
-  constructor(apiService: OpenWebNinjaService, rateLimiter: RateLimiter) {
+  constructor(apiService: OpenWebNinjaService, rateLimiter: RateLimiter, pageFetcher: PageFetcher, history?: SearchHistory) {
     this.apiService = apiService;
     this.rateLimiter = rateLimiter;
+    this.pageFetcher = pageFetcher;
+    this.history = history;
   }
 
-  async handle(params: any): Promise<any> {
+  async handle(params: any, context: ToolCallContext = {}): Promise<any> {
     try {
-      // Check rate limit
-      if (!this.rateLimiter.canMakeRequest()) {
+      // Validate and sanitize input
+      const validatedParams = validateWebSearchParams(params);
+      const parsedQuery = parseSearchQuery(validatedParams.query);
+      validatedParams.query = parsedQuery.query;
+
+      // Take a rate limit slot, waiting for one if the limiter is configured to
+      if (!(await this.rateLimiter.acquire())) {
         const resetTime = this.rateLimiter.getTimeUntilReset();
         return {
           content: [{
@@ -28,13 +44,6 @@ export class WebSearchHandler {
         };
       }
 
-      // Validate and sanitize input
-      const validatedParams = validateSearchParams(params);
-      validatedParams.query = sanitizeQuery(validatedParams.query);
-
-      // Record the request
-      this.rateLimiter.recordRequest();
-
       // Perform the search
       const result = await this.apiService.search(validatedParams);
 
@@ -42,29 +51,54 @@ export class WebSearchHandler {
         return {
           content: [{
             type: "text",
-            text: `Search failed: ${result.error?.message || 'Unknown error'}`
+            text: `Search failed: ${result.error?.message || 'Unknown error'}${result.error?.retries ? ` (gave up after ${result.error.retries + 1} attempts)` : ''}`
           }],
           isError: true
         };
       }
 
-      if (!result.data || result.data.results.length === 0) {
+      // Report how the query was understood alongside the results
+      const data: WebSearchResponse = {
+        ...(result.data ?? { results: [], query: validatedParams.query }),
+        parsed_query: parsedQuery
+      };
+
+      if (validatedParams.fetch_top_n && data.results.length > 0) {
+        data.pages = await this.pageFetcher.fetchTopResults(data, validatedParams.fetch_top_n, 'web_search', TOP_RESULT_MAX_CHARS);
+      }
+
+      this.history?.record({
+        caller: context.caller ?? UNKNOWN_CALLER,
+        tool: 'web_search',
+        query: validatedParams.query,
+        arguments: params,
+        result_count: data.results.length,
+        data: data,
+        markdown: this.formatSearchResults(data)
+      });
+
+      // Other formats render an empty result set, so pipelines can still parse it
+      if (data.results.length === 0 && (!validatedParams.format || validatedParams.format === 'markdown')) {
         return {
           content: [{
             type: "text",
-            text: `No results found for query: "${validatedParams.query}"`
-          }]
+            text: [`No results found for query: "${validatedParams.query}"`, describeFiltered(data.filtered)].filter(Boolean).join('\n\n')
+          }],
+          structuredContent: data
         };
       }
 
       // Format the results
-      const formattedResults = this.formatSearchResults(result.data);
+      const formattedResults = validatedParams.format && validatedParams.format !== 'markdown'
+        ? formatSearchResponse(data, validatedParams.format)
+        : this.formatSearchResults(data);
       
       return {
         content: [{
           type: "text",
           text: formattedResults
-        }]
+        }],
+        structuredContent: data
       };
 
     } catch (error) {
@@ -89,16 +123,38 @@ export class WebSearchHandler {
   }
 
   private formatSearchResults(data: any): string {
-    const { results, query, total_results } = data;
+    const { results, query, total_results, cached, cache_age, retries, next_cursor, parsed_query } = data;
     
     let output = `# Web Search Results for: "${query}"\n\n`;
+    const interpretation = parsed_query && describeParsedQuery(parsed_query);
+    if (interpretation) {
+      output += `**Interpreted as:** ${interpretation}\n\n`;
+    }
+
     output += `Found ${total_results || results.length} results\n\n`;
 
-    results.forEach((result: any, index: number) => {
-      output += `## ${index + 1}. ${result.title}\n`;
+    if (cached) {
+      output += `*Served from cache (${cache_age}s old)*\n\n`;
+    }
+
+    if (retries) {
+      output += `*Succeeded after ${retries} ${retries === 1 ? 'retry' : 'retries'}*\n\n`;
+    }
+
+    const filteredNote = describeFiltered(data.filtered);
+    if (filteredNote) {
+      output += `*${filteredNote}*\n\n`;
+    }
+
+    results.forEach((result: any) => {
+      output += `## ${result.position}. ${result.title}\n`;
       output += `**URL:** ${result.url}\n`;
       if (result.snippet) {
-        output += `**Snippet:** ${result.snippet}\n`;
+        output += `**Snippet:** ${highlightSnippet(result.snippet, result.relevance?.matched_terms ?? [])}\n`;
+      }
+      const relevance = describeRelevance(result);
+      if (relevance) {
+        output += `**Relevance:** ${relevance}\n`;
       }
       if (result.domain) {
         output += `**Domain:** ${result.domain}\n`;
@@ -106,9 +162,23 @@ export class WebSearchHandler {
       if (result.date) {
         output += `**Date:** ${result.date}\n`;
       }
+      const duplicates = describeAppearances(result, query);
+      if (duplicates) {
+        output += `**Also at:** ${duplicates}\n`;
+      }
+      const fetched = data.pages?.find((entry: any) => entry.position === result.position);
+      if (fetched?.page) {
+        output += `\n${formatFetchedPage(fetched.page, 3)}`;
+      } else if (fetched) {
+        output += `**Page:** could not be fetched (${fetched.error})\n`;
+      }
       output += `\n---\n\n`;
     });
 
+    if (next_cursor) {
+      output += `**More results:** call again with the same arguments and \`cursor: "${next_cursor}"\`\n`;
+    }
+
     return output;
   }
 }
\ No newline at end of file
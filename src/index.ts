@@ -2,16 +2,19 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import * as dotenv from 'dotenv';
 
 import { OpenWebNinjaService } from './services/openWebNinja.js';
+import { PageFetcher } from './services/pageFetcher.js';
 import { RateLimiter } from './utils/rateLimiter.js';
 import { validateEnvironment } from './utils/validation.js';
-import { WebSearchHandler } from './handlers/webSearch.js';
-import { BulkSearchHandler } from './handlers/bulkSearch.js';
-import { AdvancedSearchHandler } from './handlers/advancedSearch.js';
-import { ALL_TOOLS } from './types/mcp.js';
+import { loadConfig } from './config.js';
+import { ToolRegistry, createToolRegistry } from './tools/registry.js';
+import { SearchHistory } from './resources/searchHistory.js';
+import { AuditLog } from './audit/auditLog.js';
+import { SearchResources } from './resources/searchResources.js';
+import { createPromptRegistry } from './prompts/research.js';
+import { createMcpServer } from './server.js';
 
 // Load environment variables
 dotenv.config();
@@ -27,80 +30,26 @@ class OpenWebNinjaServer {
   private server: Server;
   private apiService: OpenWebNinjaService;
   private rateLimiter: RateLimiter;
-  private webSearchHandler: WebSearchHandler;
-  private bulkSearchHandler: BulkSearchHandler;
-  private advancedSearchHandler: AdvancedSearchHandler;
+  private registry: ToolRegistry;
+  private auditLogPath?: string;
 
   constructor() {
     // Validate environment
     validateEnvironment();
 
     // Initialize services
-    this.apiService = new OpenWebNinjaService(process.env.RAPIDAPI_KEY!);
-    this.rateLimiter = new RateLimiter(100, 60000); // 100 requests per minute
+    const config = loadConfig();
+    this.apiService = new OpenWebNinjaService(process.env.RAPIDAPI_KEY!, config);
+    this.rateLimiter = new RateLimiter(config.rateLimit.maxRequests, config.rateLimit.windowMs, config.rateLimit);
     
-    // Initialize handlers
-    this.webSearchHandler = new WebSearchHandler(this.apiService, this.rateLimiter);
-    this.bulkSearchHandler = new BulkSearchHandler(this.apiService, this.rateLimiter);
-    this.advancedSearchHandler = new AdvancedSearchHandler(this.apiService, this.rateLimiter);
-
-    // Initialize MCP server
-    this.server = new Server(
-      {
-        name: 'openwebninja-search',
-        version: '1.0.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    this.setupHandlers();
-  }
-
-  private setupHandlers(): void {
-    // Handle tool listing
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: ALL_TOOLS,
-      };
-    });
-
-    // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        switch (name) {
-          case 'web_search':
-            return await this.webSearchHandler.handle(args);
-          
-          case 'bulk_web_search':
-            return await this.bulkSearchHandler.handle(args);
-          
-          case 'advanced_web_search':
-            return await this.advancedSearchHandler.handle(args);
-          
-          default:
-            return {
-              content: [{
-                type: "text",
-                text: `Unknown tool: ${name}`
-              }],
-              isError: true
-            };
-        }
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
-          }],
-          isError: true
-        };
-      }
+    // Initialize tools and the MCP server
+    const history = new SearchHistory(config.history.maxEntries);
+    const auditLog = config.audit ? new AuditLog(config.audit) : undefined;
+    this.auditLogPath = config.audit?.path;
+    this.registry = createToolRegistry(this.apiService, this.rateLimiter, new PageFetcher(config), { history, auditLog });
+    this.server = createMcpServer(this.registry, {
+      resources: new SearchResources(history, this.registry),
+      prompts: createPromptRegistry()
     });
   }
 
@@ -110,8 +59,10 @@ class OpenWebNinjaServer {
     const isHealthy = await this.apiService.healthCheck();
     if (!isHealthy) {
       console.error('Warning: API health check failed. The server will still start but may not function properly.');
+      console.error('Upstream circuit breaker:', this.apiService.getCircuitStatus());
     } else {
       console.error('API connection successful!');
+      console.error('Upstream quota:', this.apiService.getQuotaStatus());
     }
 
     // Start the server
@@ -119,7 +70,10 @@ class OpenWebNinjaServer {
     await this.server.connect(transport);
     
     console.error('OpenWebNinja Real-Time Web Search MCP Server running on stdio');
-    console.error('Available tools: web_search, bulk_web_search, advanced_web_search');
+    console.error(`Available tools: ${this.registry.names().join(', ')}`);
+    if (this.auditLogPath) {
+      console.error(`Auditing tool calls to ${this.auditLogPath}`);
+    }
   }
 }
 
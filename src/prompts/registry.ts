@@ -0,0 +1,82 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * A prompt template: its MCP definition and a function that expands validated
+ * arguments into the text of the user message
+ */
+export interface PromptDefinition {
+  definition: Prompt;
+  /** Allowed values of arguments that take one of a fixed set */
+  choices?: Record<string, string[]>;
+  render(args: Record<string, string>): string;
+}
+
+/** Longest argument value accepted, so a prompt can't be used to smuggle in a document */
+export const MAX_PROMPT_ARGUMENT_LENGTH = 500;
+
+/**
+ * Registry of prompt templates.
+ *
+ * Like the tool registry, both transports mount the same instance.
+ */
+export class PromptRegistry {
+  private prompts = new Map<string, PromptDefinition>();
+
+  /**
+   * Register a prompt template
+   */
+  register(prompt: PromptDefinition): this {
+    if (this.prompts.has(prompt.definition.name)) {
+      throw new Error(`Prompt already registered: ${prompt.definition.name}`);
+    }
+    this.prompts.set(prompt.definition.name, prompt);
+    return this;
+  }
+
+  /**
+   * Get the definitions of all registered prompts, in registration order
+   */
+  list(): Prompt[] {
+    return Array.from(this.prompts.values()).map(prompt => prompt.definition);
+  }
+
+  /**
+   * Expand a prompt into its messages. Unknown prompts and invalid arguments are
+   * reported as InvalidParams errors, as the MCP specification asks.
+   */
+  get(name: string, args: Record<string, string> = {}): GetPromptResult {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const values: Record<string, string> = {};
+    for (const argument of prompt.definition.arguments ?? []) {
+      const value = args[argument.name]?.replace(/\s+/g, ' ').trim();
+
+      if (!value) {
+        if (argument.required) {
+          throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${argument.name}`);
+        }
+        continue;
+      }
+      if (value.length > MAX_PROMPT_ARGUMENT_LENGTH) {
+        throw new McpError(ErrorCode.InvalidParams, `${argument.name} must be at most ${MAX_PROMPT_ARGUMENT_LENGTH} characters`);
+      }
+
+      const choices = prompt.choices?.[argument.name];
+      if (choices && !choices.includes(value)) {
+        throw new McpError(ErrorCode.InvalidParams, `${argument.name} must be one of: ${choices.join(', ')}`);
+      }
+      values[argument.name] = value;
+    }
+
+    return {
+      description: prompt.definition.description,
+      messages: [{
+        role: 'user',
+        content: { type: 'text', text: prompt.render(values) }
+      }]
+    };
+  }
+}
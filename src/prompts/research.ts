@@ -0,0 +1,156 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+import { normalizeCountry } from '../utils/locales.js';
+import { PromptDefinition, PromptRegistry } from './registry.js';
+
+/**
+ * Prompt templates for common research workflows. Each expands into
+ * instructions naming the search tools to call and the arguments to use.
+ */
+
+const DEPTHS = ['quick', 'thorough'];
+const TIMEFRAMES = ['past_day', 'past_week', 'past_month'];
+
+/**
+ * Split a comma-separated argument into its items
+ */
+function splitList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Optional localization hint shared by the templates. The region must be a
+ * country code, since it is written into the instructions as a tool argument.
+ */
+function regionHint(region?: string): string {
+  if (!region) {
+    return '';
+  }
+  const country = normalizeCountry(region);
+  if (!country) {
+    throw new McpError(ErrorCode.InvalidParams, 'region must be an ISO 3166-1 alpha-2 country code, e.g. us or de');
+  }
+  return ` Pass \`"region": "${country}"\` to every search.`;
+}
+
+export const RESEARCH_TOPIC_PROMPT: PromptDefinition = {
+  definition: {
+    name: 'research_topic',
+    title: 'Research a topic',
+    description: 'Survey a topic from several angles and write a sourced summary',
+    arguments: [
+      { name: 'topic', description: 'The topic to research', required: true },
+      { name: 'depth', description: 'quick (one round of searches) or thorough (follow-up searches and page reads); default quick' },
+      { name: 'region', description: 'ISO 3166-1 country code to search from, e.g. us or de' }
+    ]
+  },
+  choices: { depth: DEPTHS },
+  render: ({ topic, depth = 'quick', region }) => {
+    const lines = [
+      `Research the topic: ${topic}`,
+      '',
+      `1. Call \`bulk_web_search\` once with 4-6 queries that cover different angles of the topic: an overview, how it works, recent developments, criticisms or limitations, and key statistics. Set \`"dedupe": true\` so pages found by several queries are listed once.${regionHint(region)}`,
+      '2. Pick the most authoritative and diverse sources from the results, preferring primary sources, official documentation and established publications over aggregators.'
+    ];
+
+    if (depth === 'thorough') {
+      lines.push(
+        '3. Call `fetch_page` on the 3-5 most important sources to read them in full instead of relying on snippets.',
+        '4. Where the sources disagree or leave gaps, call `advanced_web_search` with `exact_phrase`, `sites` or `date_from` to settle the question.',
+        '5. Write a structured summary with a short overview, the key points and open questions. Cite the URL of the source for every claim.'
+      );
+    } else {
+      lines.push('3. Write a concise summary of the key points, citing the URL of the source for every claim. Say where the snippets were not enough to be sure.');
+    }
+
+    return lines.join('\n');
+  }
+};
+
+export const COMPARE_VENDORS_PROMPT: PromptDefinition = {
+  definition: {
+    name: 'compare_vendors',
+    title: 'Compare vendors',
+    description: 'Compare products or vendors side by side on chosen criteria',
+    arguments: [
+      { name: 'vendors', description: 'Comma-separated vendor or product names, e.g. "Stripe, Adyen, Braintree"', required: true },
+      { name: 'criteria', description: 'Comma-separated criteria to compare on; default pricing, features, reviews and limitations' },
+      { name: 'region', description: 'ISO 3166-1 country code to search from, e.g. us or de' }
+    ]
+  },
+  render: ({ vendors, criteria, region }) => {
+    const names = splitList(vendors);
+    if (names.length < 2) {
+      throw new McpError(ErrorCode.InvalidParams, 'vendors must name at least two vendors, separated by commas');
+    }
+    const aspects = criteria ? splitList(criteria) : ['pricing', 'features', 'reviews', 'limitations'];
+    const example = names.slice(0, 2).flatMap(name => aspects.slice(0, 2).map(aspect => `"${name} ${aspect}"`)).join(', ');
+
+    return [
+      `Compare these vendors: ${names.join(', ')}`,
+      `Criteria: ${aspects.join(', ')}`,
+      '',
+      `1. Call \`bulk_web_search\` with one query per vendor and criterion (e.g. ${example}), at most 20 queries per call.${regionHint(region)}`,
+      `2. Call \`web_search\` for direct comparisons such as "${names.slice(0, 2).join(' vs ')}".`,
+      "3. For facts that vendors state themselves, like pricing and feature lists, call `advanced_web_search` with `site_restrict` set to the vendor's own domain. For reviews, use `exclude_sites` to leave out the vendors' domains.",
+      '4. Present a comparison table with one row per criterion and one column per vendor, then a short recommendation for typical use cases. Cite a source URL for every cell, and mark anything older than a year as possibly out of date.'
+    ].join('\n');
+  }
+};
+
+export const FIND_PRIMARY_SOURCES_PROMPT: PromptDefinition = {
+  definition: {
+    name: 'find_primary_sources',
+    title: 'Find primary sources for a claim',
+    description: 'Trace a claim back to the original study, dataset, filing or statement',
+    arguments: [
+      { name: 'claim', description: 'The claim to trace, e.g. a statistic or a quote', required: true },
+      { name: 'domains', description: 'Comma-separated domains likely to hold the primary source, e.g. "who.int, nih.gov"' }
+    ]
+  },
+  render: ({ claim, domains }) => {
+    const sites = domains ? splitList(domains) : [];
+
+    return [
+      `Find the primary source for this claim: ${claim}`,
+      '',
+      '1. Call `web_search` with the key terms of the claim to see how it is usually reported, and note who the reports attribute it to.',
+      `2. Call \`advanced_web_search\` with the most distinctive figure or wording of the claim as \`exact_phrase\`${sites.length > 0 ? `, and \`sites\` set to ${JSON.stringify(sites)}` : ''}. Try \`file_type: "pdf"\` for studies and reports.`,
+      '3. Call `fetch_page` on candidate sources to check that they actually contain the claim, and follow their citations until you reach the original: a study, dataset, official filing or first-hand statement.',
+      '4. Report the primary source with its URL, author or publisher and date, quote the passage that supports the claim, and say whether the claim as stated matches it. If no primary source can be found, say so and list the best secondary sources.'
+    ].join('\n');
+  }
+};
+
+export const RECENT_NEWS_PROMPT: PromptDefinition = {
+  definition: {
+    name: 'recent_news',
+    title: 'Find recent news',
+    description: 'Collect and summarize recent news coverage of a subject',
+    arguments: [
+      { name: 'subject', description: 'The company, person, event or topic', required: true },
+      { name: 'timeframe', description: 'past_day, past_week or past_month; default past_week' },
+      { name: 'region', description: 'ISO 3166-1 country code to search from, e.g. us or de' }
+    ]
+  },
+  choices: { timeframe: TIMEFRAMES },
+  render: ({ subject, timeframe = 'past_week', region }) => [
+    `Find recent news about: ${subject}`,
+    '',
+    `1. Call \`advanced_web_search\` with \`"query": ${JSON.stringify(subject)}\`, \`"date_range": "${timeframe}"\`, \`"max_results": 20\` and \`"dedupe": true\`.${regionHint(region)}`,
+    '2. If the results are thin, call `advanced_web_search` again with the same `date_range` and a broader or alternative phrasing of the subject.',
+    '3. Group the stories by event rather than listing them one by one, and put the most significant first. For each, give the date, a one-sentence summary and the URLs of the outlets that covered it.',
+    '4. Leave out results that are older than the timeframe or only mention the subject in passing.'
+  ].join('\n')
+};
+
+/**
+ * Build the registry with every prompt this server provides
+ */
+export function createPromptRegistry(): PromptRegistry {
+  return new PromptRegistry()
+    .register(RESEARCH_TOPIC_PROMPT)
+    .register(COMPARE_VENDORS_PROMPT)
+    .register(FIND_PRIMARY_SOURCES_PROMPT)
+    .register(RECENT_NEWS_PROMPT);
+}
@@ -0,0 +1,224 @@
+import { createHash } from 'node:crypto';
+import {
+  RateLimitPolicy,
+  RateLimitState,
+  createRateLimitState,
+  consumeRateLimit,
+  getRateLimitCapacity,
+  getRateLimitUsage,
+  getRateLimitWait
+} from '../utils/rateLimiter.js';
+import { RateLimitStore } from './types.js';
+
+export interface QuotaPolicy {
+  limit: number;
+  windowMs: number;
+}
+
+export interface ClientRateLimitPolicy extends RateLimitPolicy {
+  /** Optional fixed-window quota on top of the rate limit, e.g. calls per day */
+  quota?: QuotaPolicy;
+}
+
+interface ClientState {
+  rate: RateLimitState;
+  quota?: { windowStart: number; used: number };
+}
+
+/**
+ * Outcome of a rate limit check, with the values for the RateLimit headers
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds?: number;
+  policy: string;
+}
+
+/**
+ * Rate limiter keyed by caller identity, backed by a shared store so that
+ * several server instances enforce the same per-client limits.
+ * A maxRequests of 0 disables the rate limit, leaving only the quota.
+ */
+export class ClientRateLimiter {
+  private policy: ClientRateLimitPolicy;
+  private store: RateLimitStore;
+
+  constructor(policy: ClientRateLimitPolicy, store: RateLimitStore) {
+    this.policy = policy;
+    this.store = store;
+  }
+
+  /**
+   * Take `cost` slots for a client if both the rate limit and the quota allow it.
+   * A cost of 0 only reports the client's current standing.
+   */
+  async consume(clientId: string, cost: number = 1): Promise<RateLimitDecision> {
+    // Such a request could never be allowed, so it must not wait for a slot that never frees up
+    const tooLarge = cost > this.getCapacity();
+    const ttlMs = Math.max(this.policy.windowMs, this.policy.quota?.windowMs ?? 0);
+
+    return this.store.update<ClientState, RateLimitDecision>(`client:${clientId}`, ttlMs, (current) => {
+      const now = Date.now();
+      const state: ClientState = current ?? { rate: createRateLimitState(this.policy, now) };
+
+      // Quota windows are fixed, so every client's quota resets on the same boundary
+      let quota = state.quota;
+      if (this.policy.quota) {
+        const windowStart = now - (now % this.policy.quota.windowMs);
+        if (!quota || quota.windowStart !== windowStart) {
+          quota = { windowStart, used: 0 };
+        }
+      }
+
+      const rateWait = this.policy.maxRequests > 0 && !tooLarge ? getRateLimitWait(this.policy, state.rate, cost, now) : 0;
+      const quotaExceeded = this.policy.quota !== undefined && quota !== undefined && quota.used + cost > this.policy.quota.limit;
+      const allowed = cost === 0 || (!tooLarge && rateWait === 0 && !quotaExceeded);
+
+      if (allowed && cost > 0 && this.policy.maxRequests > 0) {
+        consumeRateLimit(this.policy, state.rate, cost, now);
+      }
+      if (allowed && quota) {
+        quota.used += cost;
+      }
+      state.quota = quota;
+
+      const decision = this.buildDecision(state, now, allowed);
+      if (!allowed && !tooLarge) {
+        const quotaWait = quotaExceeded && quota && this.policy.quota
+          ? quota.windowStart + this.policy.quota.windowMs - now
+          : 0;
+        decision.retryAfterSeconds = Math.max(1, Math.ceil(Math.max(rateWait, quotaWait) / 1000));
+      }
+
+      return { state, result: decision };
+    });
+  }
+
+  /**
+   * Get the most a single request can cost: the rate limit's capacity or the
+   * quota, whichever is smaller
+   */
+  getCapacity(): number {
+    return Math.min(
+      this.policy.maxRequests > 0 ? getRateLimitCapacity(this.policy) : Infinity,
+      this.policy.quota?.limit ?? Infinity
+    );
+  }
+
+  /**
+   * Report whichever limit is closer to exhaustion, as the RateLimit header draft suggests
+   */
+  private buildDecision(state: ClientState, now: number, allowed: boolean): RateLimitDecision {
+    const limits: { limit: number; remaining: number; resetSeconds: number; policy: string }[] = [];
+
+    if (this.policy.maxRequests > 0) {
+      const capacity = getRateLimitCapacity(this.policy);
+      limits.push({
+        limit: capacity,
+        remaining: Math.max(0, capacity - getRateLimitUsage(this.policy, state.rate, now)),
+        resetSeconds: Math.ceil(getRateLimitWait(this.policy, state.rate, capacity, now) / 1000),
+        policy: `${this.policy.maxRequests};w=${Math.ceil(this.policy.windowMs / 1000)}`
+      });
+    }
+
+    if (this.policy.quota && state.quota) {
+      limits.push({
+        limit: this.policy.quota.limit,
+        remaining: Math.max(0, this.policy.quota.limit - state.quota.used),
+        resetSeconds: Math.ceil((state.quota.windowStart + this.policy.quota.windowMs - now) / 1000),
+        policy: `${this.policy.quota.limit};w=${Math.ceil(this.policy.quota.windowMs / 1000)}`
+      });
+    }
+
+    const closest = limits.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+    return {
+      allowed,
+      limit: closest.limit,
+      remaining: closest.remaining,
+      resetSeconds: closest.resetSeconds,
+      policy: limits.map(limit => limit.policy).join(', ')
+    };
+  }
+}
+
+/**
+ * Which request headers can be trusted to identify a client
+ */
+export interface ClientIdentityOptions {
+  /** API keys issued to clients; keys not in the list are ignored */
+  apiKeys: string[];
+  /** Whether X-Forwarded-For and X-Real-IP are set by a proxy in front of the server, not by clients */
+  trustProxy: boolean;
+}
+
+/**
+ * Identify the caller of an HTTP request for rate limiting: a configured API
+ * key if one is sent, else the client IP when a trusted proxy reports it. API
+ * keys are hashed so they never reach the store. Anything else is a value the
+ * client could change at will, so those callers share one `anonymous` identity.
+ */
+export function identifyClient(headers: Headers, options: ClientIdentityOptions): string {
+  const apiKey = getApiKey(headers, options);
+  if (apiKey) {
+    return apiKey;
+  }
+
+  if (options.trustProxy) {
+    const forwardedFor = headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+    const ip = forwardedFor || headers.get('x-real-ip')?.trim();
+    if (ip) {
+      return `ip:${ip}`;
+    }
+  }
+
+  return 'anonymous';
+}
+
+/**
+ * Identify who owns the calls made in an HTTP request, for the audit log and
+ * search history: a configured API key if one is sent, else the MCP session.
+ * Session ids are random and only known to the client that holds them, unlike
+ * IP addresses, which clients behind the same proxy or NAT share.
+ */
+export function identifyCaller(headers: Headers, options: ClientIdentityOptions): string {
+  const apiKey = getApiKey(headers, options);
+  if (apiKey) {
+    return apiKey;
+  }
+
+  const sessionId = headers.get('mcp-session-id');
+  return sessionId ? `session:${sessionId}` : 'anonymous';
+}
+
+/**
+ * Get the hashed identity of the API key a request sends, if it is a configured one
+ */
+function getApiKey(headers: Headers, options: ClientIdentityOptions): string | undefined {
+  const authorization = headers.get('authorization');
+  const apiKey = headers.get('x-api-key') ?? (authorization?.toLowerCase().startsWith('bearer ') ? authorization.slice(7).trim() : undefined);
+  if (!apiKey || !options.apiKeys.includes(apiKey)) {
+    return undefined;
+  }
+  return `key:${createHash('sha256').update(apiKey).digest('hex').slice(0, 32)}`;
+}
+
+/**
+ * Build the standard RateLimit-* (and Retry-After) response headers
+ */
+export function getRateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Policy': decision.policy,
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(decision.resetSeconds)
+  };
+
+  if (decision.retryAfterSeconds !== undefined) {
+    headers['Retry-After'] = String(decision.retryAfterSeconds);
+  }
+
+  return headers;
+}
@@ -0,0 +1,95 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { RateLimitStore } from './types.js';
+
+interface StoredState<T> {
+  key: string;
+  state: T;
+  expiresAt: number;
+}
+
+const LOCK_TIMEOUT_MS = 2000;
+const STALE_LOCK_MS = 10000;
+
+/**
+ * Filesystem rate limit store: one JSON file per client in a directory.
+ *
+ * Each update holds an exclusive lock file for the client, so several server
+ * processes on one host can share counts without losing increments.
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private directory: string;
+  private ready: Promise<void>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+  }
+
+  async update<T, R>(key: string, ttlMs: number, fn: (state: T | undefined) => { state: T; result: R }): Promise<R> {
+    await this.ready;
+    const file = this.filePath(key);
+    const release = await this.lock(`${file}.lock`);
+
+    try {
+      const now = Date.now();
+      let current: T | undefined;
+      try {
+        const stored: StoredState<T> = JSON.parse(await fs.readFile(file, 'utf8'));
+        if (stored.key === key && stored.expiresAt > now) {
+          current = stored.state;
+        }
+      } catch {
+        // No state yet for this client
+      }
+
+      const { state, result } = fn(current);
+
+      const stored: StoredState<T> = { key, state, expiresAt: now + ttlMs };
+      const tempFile = `${file}.${randomUUID()}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(stored), 'utf8');
+      await fs.rename(tempFile, file);
+
+      return result;
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Take an exclusive lock by creating the lock file, breaking locks left
+   * behind by crashed processes
+   */
+  private async lock(lockFile: string): Promise<() => Promise<void>> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (true) {
+      try {
+        const handle = await fs.open(lockFile, 'wx');
+        await handle.close();
+        return () => fs.rm(lockFile, { force: true });
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const stats = await fs.stat(lockFile).catch(() => undefined);
+      if (stats && Date.now() - stats.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockFile, { force: true });
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the rate limit store lock');
+      }
+      await new Promise(resolve => setTimeout(resolve, 5 + Math.random() * 20));
+    }
+  }
+
+  private filePath(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
@@ -0,0 +1,50 @@
+import { ClientRateLimitConfig } from '../config.js';
+import { RateLimitStore } from './types.js';
+import { ClientRateLimiter } from './clientRateLimiter.js';
+import { MemoryRateLimitStore } from './memoryStore.js';
+import { FileRateLimitStore } from './fileStore.js';
+import { SqliteRateLimitStore } from './sqliteStore.js';
+
+export type { RateLimitStore } from './types.js';
+export type { ClientIdentityOptions, ClientRateLimitPolicy, QuotaPolicy, RateLimitDecision } from './clientRateLimiter.js';
+export { ClientRateLimiter, identifyClient, identifyCaller, getRateLimitHeaders } from './clientRateLimiter.js';
+export { MemoryRateLimitStore } from './memoryStore.js';
+export { FileRateLimitStore } from './fileStore.js';
+export { SqliteRateLimitStore } from './sqliteStore.js';
+
+/**
+ * Create the rate limit store selected by the configuration
+ */
+export function createRateLimitStore(config: ClientRateLimitConfig): RateLimitStore {
+  switch (config.store) {
+    case 'file':
+      return new FileRateLimitStore(config.path ?? '.cache/ratelimit');
+
+    case 'sqlite':
+      return new SqliteRateLimitStore(config.path ?? '.cache/ratelimit.db');
+
+    case 'memory':
+    default:
+      return new MemoryRateLimitStore();
+  }
+}
+
+/**
+ * Create the per-client limiter, or undefined when both the rate limit and the quota are off
+ */
+export function createClientRateLimiter(config: ClientRateLimitConfig): ClientRateLimiter | undefined {
+  if (config.maxRequests === 0 && config.quota === 0) {
+    return undefined;
+  }
+
+  return new ClientRateLimiter(
+    {
+      mode: config.mode,
+      maxRequests: config.maxRequests,
+      windowMs: config.windowMs,
+      burstSize: config.burstSize,
+      quota: config.quota > 0 ? { limit: config.quota, windowMs: config.quotaWindowMs } : undefined
+    },
+    createRateLimitStore(config)
+  );
+}
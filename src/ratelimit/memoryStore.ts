@@ -0,0 +1,37 @@
+import { RateLimitStore } from './types.js';
+
+/**
+ * In-memory rate limit store. Counts are per process and lost on restart.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: unknown; expiresAt: number }>();
+  private updatesSinceSweep = 0;
+
+  async update<T, R>(key: string, ttlMs: number, fn: (state: T | undefined) => { state: T; result: R }): Promise<R> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const entry = this.entries.get(key);
+    const current = entry && entry.expiresAt > now ? entry.state as T : undefined;
+
+    const { state, result } = fn(current);
+    this.entries.set(key, { state, expiresAt: now + ttlMs });
+    return result;
+  }
+
+  /**
+   * Drop expired clients every so often so the map does not grow unbounded
+   */
+  private sweep(now: number): void {
+    if (++this.updatesSinceSweep < 100) {
+      return;
+    }
+    this.updatesSinceSweep = 0;
+
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import type { Database } from 'better-sqlite3';
+import { RateLimitStore } from './types.js';
+
+/**
+ * Embedded SQLite rate limit store.
+ *
+ * Updates run in `BEGIN IMMEDIATE` transactions on a WAL-mode database, so
+ * several server processes on one host share counts atomically.
+ * `better-sqlite3` is an optional dependency and is only loaded when used.
+ */
+export class SqliteRateLimitStore implements RateLimitStore {
+  private filename: string;
+  private db?: Promise<Database>;
+
+  constructor(filename: string) {
+    this.filename = filename;
+  }
+
+  async update<T, R>(key: string, ttlMs: number, fn: (state: T | undefined) => { state: T; result: R }): Promise<R> {
+    const db = await this.open();
+
+    return db.transaction(() => {
+      const now = Date.now();
+      db.prepare('DELETE FROM rate_limits WHERE expires_at <= ?').run(now);
+
+      const row = db
+        .prepare('SELECT state FROM rate_limits WHERE key = ?')
+        .get(key) as { state: string } | undefined;
+
+      const { state, result } = fn(row ? JSON.parse(row.state) : undefined);
+
+      db.prepare('INSERT OR REPLACE INTO rate_limits (key, state, expires_at) VALUES (?, ?, ?)')
+        .run(key, JSON.stringify(state), now + ttlMs);
+
+      return result;
+    }).immediate();
+  }
+
+  private open(): Promise<Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        const { default: BetterSqlite3 } = await import('better-sqlite3');
+        await fs.mkdir(path.dirname(this.filename), { recursive: true });
+
+        const db = new BetterSqlite3(this.filename);
+        db.pragma('journal_mode = WAL');
+        db.pragma('busy_timeout = 5000');
+        db.exec(`
+          CREATE TABLE IF NOT EXISTS rate_limits (
+            key TEXT PRIMARY KEY,
+            state TEXT NOT NULL,
+            expires_at INTEGER NOT NULL
+          );
+          CREATE INDEX IF NOT EXISTS rate_limits_expires_at ON rate_limits (expires_at);
+        `);
+        return db;
+      })();
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Store contract for rate limit state shared between server instances
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically read, modify and write the state stored under `key`.
+   * `fn` receives undefined for unknown or expired keys and returns the new
+   * state plus a result for the caller; the state expires after `ttlMs`.
+   */
+  update<T, R>(key: string, ttlMs: number, fn: (state: T | undefined) => { state: T; result: R }): Promise<R>;
+}
@@ -0,0 +1,78 @@
+import { randomUUID } from 'node:crypto';
+
+/**
+ * In-memory history of the searches this server ran, newest last.
+ *
+ * Entries keep the tool's structured response and its markdown rendering so
+ * they can be served as resources without searching again. Each entry belongs
+ * to the caller that ran the search, and is only listed and read for them. The
+ * oldest entries are dropped beyond the size limit.
+ */
+export interface SearchHistoryEntry {
+  id: string;
+  /** Increases with every entry, so list cursors stay valid as entries are added */
+  seq: number;
+  /** Who ran the search, as identified for the audit log */
+  caller: string;
+  tool: string;
+  /** The query, or the queries of a bulk or multi-query search joined with ` | ` */
+  query: string;
+  arguments: Record<string, unknown>;
+  result_count: number;
+  /** The tool's structuredContent */
+  data: unknown;
+  markdown: string;
+  created_at: string;
+}
+
+export type SearchHistoryRecord = Omit<SearchHistoryEntry, 'id' | 'seq' | 'created_at'>;
+
+export class SearchHistory {
+  private entries: SearchHistoryEntry[] = [];
+  private nextSeq = 1;
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Store a search. Does nothing when the history is disabled.
+   */
+  record(record: SearchHistoryRecord): SearchHistoryEntry | undefined {
+    if (this.maxEntries <= 0) {
+      return undefined;
+    }
+
+    const entry: SearchHistoryEntry = {
+      ...record,
+      id: randomUUID(),
+      seq: this.nextSeq++,
+      created_at: new Date().toISOString()
+    };
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+    return entry;
+  }
+
+  /**
+   * Get one of a caller's entries
+   */
+  get(id: string, caller: string): SearchHistoryEntry | undefined {
+    return this.entries.find(entry => entry.id === id && entry.caller === caller);
+  }
+
+  /**
+   * List a caller's entries newest first, starting after the entry with sequence number `before`
+   */
+  list(caller: string, limit: number, before?: number): SearchHistoryEntry[] {
+    const older = this.entries.filter(entry => entry.caller === caller && (before === undefined || entry.seq < before));
+    return older.slice(-limit).reverse();
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+}
@@ -0,0 +1,115 @@
+import { ErrorCode, McpError, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+
+import { ToolRegistry } from '../tools/registry.js';
+import { ToolCallContext, UNKNOWN_CALLER } from '../types/mcp.js';
+import { SearchHistory } from './searchHistory.js';
+
+const HISTORY_PREFIX = 'search://history/';
+const QUERY_PREFIX = 'search://query/';
+
+/** Entries per resources/list page */
+export const HISTORY_PAGE_SIZE = 50;
+
+/** JSON-RPC error code the MCP specification uses for unknown resources */
+const RESOURCE_NOT_FOUND = -32002;
+
+export const SEARCH_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${HISTORY_PREFIX}{id}`,
+    name: 'search-history',
+    title: 'Past search',
+    description: 'A search this server ran: the full response as JSON and its markdown rendering',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${QUERY_PREFIX}{query}`,
+    name: 'search-query',
+    title: 'Search results for a query',
+    description: 'Run a web_search for the URL-encoded query, served from the cache when it holds a fresh response',
+    mimeType: 'application/json'
+  }
+];
+
+/**
+ * Exposes search history and query results as MCP resources.
+ * Each resource is read as two contents: the JSON response and its markdown.
+ * Callers only see the searches they ran themselves.
+ */
+export class SearchResources {
+  private history: SearchHistory;
+  private registry: ToolRegistry;
+
+  constructor(history: SearchHistory, registry: ToolRegistry) {
+    this.history = history;
+    this.registry = registry;
+  }
+
+  /**
+   * List past searches newest first. The cursor is the sequence number of the
+   * last entry of the previous page, so new searches don't shift later pages.
+   */
+  list(cursor?: string, context: ToolCallContext = {}): { resources: Resource[]; nextCursor?: string } {
+    let before: number | undefined;
+    if (cursor !== undefined) {
+      before = Number(cursor);
+      if (!Number.isInteger(before) || before < 1) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+      }
+    }
+
+    const entries = this.history.list(context.caller ?? UNKNOWN_CALLER, HISTORY_PAGE_SIZE + 1, before);
+    const page = entries.slice(0, HISTORY_PAGE_SIZE);
+
+    return {
+      resources: page.map(entry => ({
+        uri: `${HISTORY_PREFIX}${entry.id}`,
+        name: `${entry.tool}: ${entry.query}`,
+        description: `${entry.result_count} results, ${entry.created_at}`,
+        mimeType: 'application/json'
+      })),
+      ...(entries.length > HISTORY_PAGE_SIZE ? { nextCursor: String(page[page.length - 1].seq) } : {})
+    };
+  }
+
+  listTemplates(): { resourceTemplates: ResourceTemplate[] } {
+    return { resourceTemplates: SEARCH_RESOURCE_TEMPLATES };
+  }
+
+  async read(uri: string, context: ToolCallContext = {}): Promise<{ contents: { uri: string; mimeType: string; text: string }[] }> {
+    if (uri.startsWith(HISTORY_PREFIX)) {
+      const entry = this.history.get(uri.slice(HISTORY_PREFIX.length), context.caller ?? UNKNOWN_CALLER);
+      if (!entry) {
+        throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+      }
+      return this.toContents(uri, entry.data, entry.markdown);
+    }
+
+    if (uri.startsWith(QUERY_PREFIX)) {
+      let query: string;
+      try {
+        query = decodeURIComponent(uri.slice(QUERY_PREFIX.length));
+      } catch {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid query in ${uri}`);
+      }
+
+      // Going through the tool applies validation, rate limits and the cache, and records the search
+      const result = await this.registry.call('web_search', { query }, context);
+      const text = result.content?.[0]?.text ?? '';
+      if (result.isError) {
+        throw new McpError(ErrorCode.InvalidParams, text);
+      }
+      return this.toContents(uri, result.structuredContent, text);
+    }
+
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+
+  private toContents(uri: string, data: unknown, markdown: string) {
+    return {
+      contents: [
+        { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) },
+        { uri, mimeType: 'text/markdown', text: markdown }
+      ]
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+
+import { ToolRegistry } from './tools/registry.js';
+import { SearchResources } from './resources/searchResources.js';
+import { PromptRegistry } from './prompts/registry.js';
+import { ClientIdentityOptions, identifyCaller } from './ratelimit/index.js';
+
+export const SERVER_INFO = {
+  name: 'openwebninja-search',
+  version: '1.0.0',
+};
+
+export interface McpServerOptions {
+  resources?: SearchResources;
+  prompts?: PromptRegistry;
+  /** How HTTP callers are identified; without it every HTTP caller is anonymous */
+  identity?: ClientIdentityOptions;
+}
+
+/**
+ * Create an MCP server that exposes every tool in the registry, and the search
+ * resources and prompts when given. The caller is responsible for connecting it
+ * to a transport.
+ */
+export function createMcpServer(registry: ToolRegistry, options: McpServerOptions = {}): Server {
+  const { resources, prompts, identity = { apiKeys: [], trustProxy: false } } = options;
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      tools: {},
+      ...(resources ? { resources: {} } : {}),
+      ...(prompts ? { prompts: {} } : {}),
+    },
+  });
+
+  // Handle tool listing
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: registry.list(),
+    };
+  });
+
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    return await registry.call(name, args, { caller: getCaller(identity, extra.requestInfo?.headers) });
+  });
+
+  if (resources) {
+    server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+      return resources.list(request.params?.cursor, { caller: getCaller(identity, extra.requestInfo?.headers) });
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return resources.listTemplates();
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      return await resources.read(request.params.uri, { caller: getCaller(identity, extra.requestInfo?.headers) });
+    });
+  }
+
+  if (prompts) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: prompts.list(),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      return prompts.get(request.params.name, request.params.arguments);
+    });
+  }
+
+  return server;
+}
+
+/**
+ * Identify who made a request: HTTP callers by API key or MCP session, which
+ * unlike the IP used for rate limits can't be claimed by another client, and
+ * anything without headers as the stdio client
+ */
+function getCaller(identity: ClientIdentityOptions, headers?: Record<string, string | string[] | undefined>): string {
+  if (!headers) {
+    return 'stdio';
+  }
+
+  const normalized = new Headers();
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      normalized.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+  }
+  return identifyCaller(normalized, identity);
+}
@@ -1,13 +1,46 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { SearchParams, BulkSearchParams, WebSearchResponse, BulkSearchResponse, APIResponse, RapidAPIError } from '../types/api.js';
+import { SearchParams, BulkSearchParams, MultiQuerySearchParams, DateRange, WebSearchResponse, BulkSearchResponse, MultiQuerySearchResponse, APIResponse, RapidAPIError } from '../types/api.js';
+import { BulkConfig, CacheConfig } from '../config.js';
+import { CacheStore, MemoryCacheStore, createCacheStore } from '../cache/index.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, isRetryableError, withRetry } from '../utils/retry.js';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerStatus, CircuitOpenError } from '../utils/circuitBreaker.js';
+import { buildAdvancedQuery } from '../utils/advancedQuery.js';
+import { DEFAULT_PAGE_SIZE, MAX_RESULT_OFFSET, decodeCursor, encodeCursor, getResultListKey } from '../utils/pagination.js';
+import { canonicalizeUrl, dedupeResults } from '../utils/urls.js';
+import { DEFAULT_RRF_K, fuseRankedLists } from '../utils/rankFusion.js';
+import { annotateRelevance, getMatchTerms } from '../utils/relevance.js';
+import { DomainPolicy, DomainPolicyOptions } from '../utils/domainPolicy.js';
+import { QuotaExhaustedError, QuotaOptions, QuotaStatus, QuotaTracker, parseQuotaHeaders } from '../utils/quotaTracker.js';
+
+export interface OpenWebNinjaServiceOptions {
+  cache?: CacheConfig | CacheStore<WebSearchResponse>;
+  bulk?: BulkConfig;
+  retry?: RetryPolicy;
+  circuitBreaker?: CircuitBreakerOptions;
+  quota?: QuotaOptions;
+  domainPolicy?: DomainPolicyOptions;
+}
 
 export class OpenWebNinjaService {
   private client: AxiosInstance;
   private apiKey: string;
   private baseURL = 'https://real-time-web-search.p.rapidapi.com';
+  private cache: CacheStore<WebSearchResponse>;
+  private bulkConcurrency: number;
+  private retryPolicy: RetryPolicy;
+  private circuitBreaker: CircuitBreaker;
+  private quotaTracker: QuotaTracker;
+  private domainPolicy: DomainPolicy;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: OpenWebNinjaServiceOptions = {}) {
     this.apiKey = apiKey;
+    this.cache = this.resolveCacheStore(options.cache);
+    this.bulkConcurrency = options.bulk?.concurrency ?? 5;
+    this.retryPolicy = options.retry ?? DEFAULT_RETRY_POLICY;
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+    this.quotaTracker = new QuotaTracker(options.quota);
+    this.domainPolicy = new DomainPolicy(options.domainPolicy);
     this.client = axios.create({
       baseURL: this.baseURL,
       headers: {
@@ -20,38 +53,116 @@ export class OpenWebNinjaService {
   }
 
   /**
-   * Perform a single web search
+   * Perform a single web search. The tool name selects the domain policy rules.
    */
-  async search(params: SearchParams): Promise<APIResponse<WebSearchResponse>> {
+  async search(params: SearchParams, tool: string = 'web_search'): Promise<APIResponse<WebSearchResponse>> {
+    let attempts = 0;
+
     try {
+      // Excluding blocked domains upstream keeps them from taking result slots
+      const query = [params.query, ...this.domainPolicy.getExclusions(tool)].join(' ');
       const searchParams = new URLSearchParams();
-      searchParams.append('q', params.query);
-      
-      if (params.max_results) {
-        searchParams.append('num', Math.min(params.max_results, 300).toString());
-      }
+      searchParams.append('q', query.replace(/\s+/g, ' ').trim());
+
+      // A cursor keeps the page size of the page it came from unless max_results overrides it.
+      // The size is always sent so that pages reached by cursor or page number share cache keys.
+      const cursor = params.cursor !== undefined ? decodeCursor(params.cursor) : undefined;
+      const pageSize = Math.min(params.max_results ?? cursor?.size ?? DEFAULT_PAGE_SIZE, 300);
+      searchParams.append('num', pageSize.toString());
       
       if (params.region) {
         searchParams.append('gl', params.region);
       }
+
+      if (params.language) {
+        searchParams.append('hl', params.language);
+      }
+
+      if (params.location) {
+        searchParams.append('location', params.location);
+      }
+
+      if (params.device) {
+        searchParams.append('device', params.device);
+      }
       
       if (params.safe_search !== undefined) {
         searchParams.append('safe', params.safe_search ? 'active' : 'off');
       }
 
-      const response: AxiosResponse = await this.client.get('/search', {
-        params: Object.fromEntries(searchParams)
-      });
+      if (params.date_range) {
+        searchParams.append('tbs', this.mapDateRange(params.date_range));
+      }
+
+      const listKey = getResultListKey(Object.fromEntries(searchParams));
+      if (params.cursor !== undefined && cursor?.key !== listKey) {
+        return {
+          success: false,
+          error: {
+            message: 'cursor does not belong to this search; pass the same query and options as the previous page',
+            code: 'INVALID_CURSOR'
+          }
+        };
+      }
+
+      const offset = cursor?.offset ?? ((params.page ?? 1) - 1) * pageSize;
+      if (offset > 0) {
+        searchParams.append('start', offset.toString());
+      }
+
+      // Every page is cached under its own key, so revisiting earlier pages is free
+      const requestParams = Object.fromEntries(searchParams);
+      const cacheKey = this.buildCacheKey(requestParams);
+      // The cache keeps unfiltered results, so policy changes apply to cached searches too
+      const matchTerms = getMatchTerms(params.query);
+      const paginate = (data: WebSearchResponse) => {
+        const page = this.dedupe(this.applyDomainPolicy(this.paginate(data, listKey, offset, pageSize), tool), params.dedupe);
+        return { ...page, results: annotateRelevance(page.results, matchTerms) };
+      };
+
+      if (!params.no_cache && params.max_age !== 0) {
+        const cached = await this.readCache(cacheKey);
+        if (cached && (params.max_age === undefined || Date.now() - cached.storedAt <= params.max_age * 1000)) {
+          return {
+            success: true,
+            data: {
+              ...paginate(cached.value),
+              cached: true,
+              cache_age: Math.floor((Date.now() - cached.storedAt) / 1000),
+              retries: 0
+            }
+          };
+        }
+      }
+
+      const retryPolicy: RetryPolicy = params.max_retries !== undefined
+        ? { ...this.retryPolicy, maxAttempts: params.max_retries + 1 }
+        : this.retryPolicy;
+
+      const { value: response } = await withRetry<AxiosResponse>((attempt) => {
+        attempts = attempt;
+        return this.requestSearch(requestParams);
+      }, retryPolicy);
+
+      const data = this.parseSearchResponse(response.data, params.query, offset);
+      await this.writeCache(cacheKey, data);
 
       return {
         success: true,
-        data: this.parseSearchResponse(response.data, params.query),
+        data: {
+          ...paginate(data),
+          cached: false,
+          retries: attempts - 1
+        },
         rate_limit: this.extractRateLimit(response.headers)
       };
     } catch (error: any) {
       return {
         success: false,
-        error: this.parseError(error)
+        error: {
+          ...this.parseError(error),
+          retries: Math.max(0, attempts - 1)
+        }
       };
     }
   }
@@ -59,44 +170,56 @@ export class OpenWebNinjaService {
   /**
    * Perform bulk web searches
    */
-  async bulkSearch(params: BulkSearchParams): Promise<APIResponse<BulkSearchResponse>> {
+  async bulkSearch(params: BulkSearchParams, tool: string = 'bulk_web_search'): Promise<APIResponse<BulkSearchResponse>> {
     try {
-      const searches = [];
-      
-      for (const query of params.queries) {
+      const searches = await mapWithConcurrency(params.queries, this.bulkConcurrency, async (query): Promise<BulkSearchResponse['searches'][number]> => {
         const searchResult = await this.search({
           query,
           max_results: params.max_results_per_query || 10,
           region: params.region,
-          safe_search: params.safe_search
-        });
-        
+          language: params.language,
+          location: params.location,
+          device: params.device,
+          safe_search: params.safe_search,
+          max_age: params.max_age,
+          no_cache: params.no_cache,
+          max_retries: params.max_retries
+        }, tool);
+
         if (searchResult.success && searchResult.data) {
-          searches.push({
+          return {
             query,
+            status: 'success',
             results: searchResult.data.results,
-            total_results: searchResult.data.total_results
-          });
-        } else {
-          // Include failed searches with empty results
-          searches.push({
-            query,
-            results: [],
-            total_results: 0
-          });
+            total_results: searchResult.data.total_results,
+            cached: searchResult.data.cached,
+            retries: searchResult.data.retries,
+            filtered: searchResult.data.filtered
+          };
         }
-        
-        // Add small delay between requests to respect rate limits
-        if (params.queries.indexOf(query) < params.queries.length - 1) {
-          await this.delay(100);
-        }
-      }
+
+        // Keep failed searches in the batch so callers can tell them from empty ones
+        return {
+          query,
+          status: 'error',
+          error: searchResult.error?.message || 'Unknown error',
+          results: [],
+          total_results: 0,
+          retries: searchResult.error?.retries
+        };
+      });
+
+      // Deduplicating the whole batch also covers duplicates within each query
+      const duplicatesRemoved = params.dedupe
+        ? dedupeResults(searches.filter(search => search.status === 'success'))
+        : undefined;
 
       return {
         success: true,
         data: {
           searches,
-          search_time: Date.now()
+          search_time: Date.now(),
+          duplicates_removed: duplicatesRemoved
         }
       };
     } catch (error: any) {
@@ -108,52 +231,103 @@ export class OpenWebNinjaService {
   }
 
   /**
-   * Perform advanced search with operators
+   * Run several variants of a query as a bulk search and fuse their results
+   * into one ranked list with reciprocal rank fusion
    */
-  async advancedSearch(params: SearchParams): Promise<APIResponse<WebSearchResponse>> {
-    let query = params.query;
-    
-    // Build advanced query with operators
-    if (params.site_restrict) {
-      query += ` site:${params.site_restrict}`;
-    }
-    
-    if (params.file_type) {
-      query += ` filetype:${params.file_type}`;
+  async multiQuerySearch(params: MultiQuerySearchParams): Promise<APIResponse<MultiQuerySearchResponse>> {
+    const bulk = await this.bulkSearch({
+      queries: params.queries,
+      max_results_per_query: params.max_results_per_query,
+      region: params.region,
+      language: params.language,
+      location: params.location,
+      device: params.device,
+      safe_search: params.safe_search,
+      max_age: params.max_age,
+      no_cache: params.no_cache,
+      max_retries: params.max_retries
+    }, 'multi_query_search');
+
+    if (!bulk.success || !bulk.data) {
+      return { success: false, error: bulk.error };
     }
-    
-    // Date range handling would need to be implemented based on API capabilities
-    if (params.date_range) {
-      // Note: This might need adjustment based on actual API parameters
-      const dateParam = this.mapDateRange(params.date_range);
-      if (dateParam) {
-        query += ` ${dateParam}`;
+
+    const weights = params.weights ?? params.queries.map(() => 1);
+    const rrfK = params.rrf_k ?? DEFAULT_RRF_K;
+    const searches = bulk.data.searches.map((search, index) => ({ ...search, weight: weights[index] }));
+    // Relevance is scored against every variant, not just the one the title and snippet came from
+    const fused = annotateRelevance(fuseRankedLists(searches.filter(search => search.status === 'success'), rrfK), getMatchTerms(params.queries));
+
+    return {
+      success: true,
+      data: {
+        results: fused.slice(0, params.max_results ?? DEFAULT_PAGE_SIZE),
+        variants: searches.map(search => ({
+          query: search.query,
+          weight: search.weight,
+          status: search.status,
+          error: search.error,
+          result_count: search.results.length,
+          cached: search.cached,
+          retries: search.retries,
+          filtered: search.filtered
+        })),
+        total_results: fused.length,
+        rrf_k: rrfK,
+        search_time: bulk.data.search_time
       }
-    }
+    };
+  }
 
+  /**
+   * Perform advanced search with operators
+   */
+  async advancedSearch(params: SearchParams): Promise<APIResponse<WebSearchResponse>> {
     return this.search({
       ...params,
-      query
-    });
+      query: buildAdvancedQuery(params)
+    }, 'advanced_web_search');
+  }
+
+  /**
+   * Make one upstream search request, guarded by the quota floor and the
+   * circuit breaker. Every response, failed or not, updates the quota.
+   */
+  private async requestSearch(requestParams: Record<string, string>): Promise<AxiosResponse> {
+    await this.quotaTracker.beforeRequest();
+
+    return this.circuitBreaker.execute(async () => {
+      try {
+        const response = await this.client.get('/search', { params: requestParams });
+        this.quotaTracker.record(response.headers);
+        return response;
+      } catch (error: any) {
+        if (error?.response) {
+          this.quotaTracker.record(error.response.headers);
+        }
+        throw error;
+      }
+    }, (error) => this.isUpstreamFailure(error));
   }
 
   /**
    * Parse the API response into our standard format
    */
-  private parseSearchResponse(data: any, originalQuery: string): WebSearchResponse {
+  private parseSearchResponse(data: any, originalQuery: string, offset: number = 0): WebSearchResponse {
     const results = [];
     
     if (data.data && Array.isArray(data.data)) {
       for (let i = 0; i < data.data.length; i++) {
         const item = data.data[i];
+        // Optional fields must be omitted rather than null to satisfy the tools' outputSchema
         results.push({
           title: item.title || '',
-          url: item.url || '',
+          url: canonicalizeUrl(item.url || ''),
           snippet: item.snippet || '',
-          position: i + 1,
-          domain: item.domain,
-          favicon: item.favicon,
-          date: item.date
+          position: offset + i + 1,
+          domain: item.domain ?? undefined,
+          favicon: item.favicon ?? undefined,
+          date: item.date ?? undefined
         });
       }
     }
@@ -166,10 +340,117 @@ export class OpenWebNinjaService {
     };
   }
 
+  /**
+   * Add the page offset, and a cursor for the next page when the page was full
+   */
+  private paginate(data: WebSearchResponse, listKey: string, offset: number, pageSize: number): WebSearchResponse {
+    const nextOffset = offset + pageSize;
+    const hasMore = data.results.length >= pageSize && nextOffset < MAX_RESULT_OFFSET;
+
+    return {
+      ...data,
+      offset,
+      next_cursor: hasMore ? encodeCursor({ key: listKey, offset: nextOffset, size: pageSize }) : undefined
+    };
+  }
+
+  /**
+   * Remove results the tool may not return and report how many were removed
+   */
+  private applyDomainPolicy(data: WebSearchResponse, tool: string): WebSearchResponse {
+    if (!this.domainPolicy.isActive(tool)) {
+      return data;
+    }
+    const { results, filtered } = this.domainPolicy.filter(data.results, tool);
+    return { ...data, results, filtered };
+  }
+
+  /**
+   * Merge results for the same page when asked to. Runs after paginate, which
+   * needs the full page to tell whether there are more.
+   */
+  private dedupe(data: WebSearchResponse, enabled?: boolean): WebSearchResponse {
+    if (!enabled) {
+      return data;
+    }
+    const list = { query: data.query, results: data.results };
+    const removed = dedupeResults([list]);
+    return { ...data, results: list.results, duplicates_removed: removed };
+  }
+
+  /**
+   * Use a ready-made store, build one from configuration, or fall back to memory
+   */
+  private resolveCacheStore(cache?: CacheConfig | CacheStore<WebSearchResponse>): CacheStore<WebSearchResponse> {
+    if (!cache) {
+      return new MemoryCacheStore({ ttlMs: 300000, maxEntries: 500 });
+    }
+    if ('get' in cache) {
+      return cache;
+    }
+    return createCacheStore(cache);
+  }
+
+  /**
+   * Cache failures must never fail a search, so they are treated as misses
+   */
+  private async readCache(key: string) {
+    try {
+      return await this.cache.get(key);
+    } catch (error) {
+      console.error('Search cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  private async writeCache(key: string, data: WebSearchResponse): Promise<void> {
+    try {
+      await this.cache.set(key, data);
+    } catch (error) {
+      console.error('Search cache write failed:', error);
+    }
+  }
+
+  /**
+   * Build a cache key from the normalized upstream request parameters.
+   * Operators are part of the query by the time it reaches `search`.
+   */
+  private buildCacheKey(requestParams: Record<string, string>): string {
+    return JSON.stringify(
+      Object.keys(requestParams)
+        .sort()
+        .map(key => [key, requestParams[key]])
+    );
+  }
+
+  /**
+   * Whether an error indicates the upstream itself is unhealthy.
+   * Rate limiting is handled by retries and does not trip the circuit breaker.
+   */
+  private isUpstreamFailure(error: any): boolean {
+    return isRetryableError(error) && error?.response?.status !== 429;
+  }
+
   /**
    * Parse error responses
    */
   private parseError(error: any): RapidAPIError {
+    if (error instanceof QuotaExhaustedError) {
+      return {
+        message: error.message,
+        code: 'QUOTA_EXHAUSTED',
+        retry_after: Math.ceil(error.retryAfterMs / 1000)
+      };
+    }
+
+    if (error instanceof CircuitOpenError) {
+      return {
+        message: error.message,
+        code: 'CIRCUIT_OPEN',
+        retry_after: Math.ceil(error.retryAfterMs / 1000)
+      };
+    }
+
     if (error.response) {
       return {
         message: error.response.data?.message || error.message || 'API request failed',
@@ -188,31 +469,39 @@ export class OpenWebNinjaService {
    * Extract rate limit information from response headers
    */
   private extractRateLimit(headers: any) {
+    const quota = parseQuotaHeaders(headers);
     return {
-      remaining: parseInt(headers['x-ratelimit-remaining'] || '0'),
-      reset_time: parseInt(headers['x-ratelimit-reset'] || '0')
+      remaining: quota.remaining ?? 0,
+      reset_time: quota.resetMs !== undefined ? Math.ceil(quota.resetMs / 1000) : 0
     };
   }
 
   /**
-   * Map date range to query parameters
+   * Map a relative date range to the API's `tbs` time filter (Google's qdr values)
    */
-  private mapDateRange(dateRange: string): string | null {
-    const dateMap: Record<string, string> = {
-      'past_day': 'after:1d',
-      'past_week': 'after:1w', 
-      'past_month': 'after:1m',
-      'past_year': 'after:1y'
+  private mapDateRange(dateRange: DateRange): string {
+    const dateMap: Record<DateRange, string> = {
+      'past_day': 'qdr:d',
+      'past_week': 'qdr:w',
+      'past_month': 'qdr:m',
+      'past_year': 'qdr:y'
     };
-    
-    return dateMap[dateRange] || null;
+
+    return dateMap[dateRange];
+  }
+
+  /**
+   * Get the circuit breaker state for health checks
+   */
+  getCircuitStatus(): CircuitBreakerStatus {
+    return this.circuitBreaker.getStatus();
   }
 
   /**
-   * Simple delay utility
+   * Get the last known upstream plan quota
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  getQuotaStatus(): QuotaStatus {
+    return this.quotaTracker.getStatus();
   }
 
   /**
@@ -220,7 +509,7 @@ export class OpenWebNinjaService {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const result = await this.search({ query: 'test', max_results: 1 });
+      const result = await this.search({ query: 'test', max_results: 1, no_cache: true });
       return result.success;
     } catch {
       return false;
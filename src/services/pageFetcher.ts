@@ -0,0 +1,345 @@
+import axios, { AxiosInstance } from 'axios';
+import { LookupAddress, LookupAllOptions, lookup } from 'node:dns';
+import { Agent as HttpAgent } from 'node:http';
+import { Agent as HttpsAgent } from 'node:https';
+import { LookupFunction, isIP } from 'node:net';
+import { Readable } from 'node:stream';
+import { APIResponse, FetchPageParams, FetchedPage, RapidAPIError, WebSearchResponse } from '../types/api.js';
+import { FetchConfig } from '../config.js';
+import { CacheStore, MemoryCacheStore, createCacheStore } from '../cache/index.js';
+import { DomainPolicy, DomainPolicyOptions } from '../utils/domainPolicy.js';
+import { extractPage } from '../utils/htmlExtractor.js';
+import { canonicalizeUrl } from '../utils/urls.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { isPrivateAddress } from '../utils/privateAddress.js';
+
+export interface PageFetcherOptions {
+  fetch?: FetchConfig;
+  domainPolicy?: DomainPolicyOptions;
+}
+
+export type PageFetchErrorCode = 'INVALID_URL' | 'BLOCKED' | 'HTTP_ERROR' | 'TOO_MANY_REDIRECTS' | 'TIMEOUT' | 'NETWORK_ERROR';
+
+export class PageFetchError extends Error {
+  constructor(message: string, public code: PageFetchErrorCode, public status?: number) {
+    super(message);
+    this.name = 'PageFetchError';
+  }
+}
+
+export const DEFAULT_FETCH_CONFIG: FetchConfig = {
+  maxBytes: 2 * 1024 * 1024,
+  timeoutMs: 10000,
+  maxRedirects: 5,
+  allowPrivateHosts: false,
+  cache: { store: 'memory', ttlMs: 3600000, maxEntries: 200 }
+};
+
+/** Longest content returned by default, in characters */
+export const DEFAULT_MAX_CHARS = 20000;
+
+/** Longest content of each page fetched along with search results */
+export const TOP_RESULT_MAX_CHARS = 5000;
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+
+/**
+ * Downloads pages and extracts their readable content, within size and time
+ * limits. Every URL, including each redirect target, is checked against the
+ * domain policy, and pages are cached by canonical URL.
+ */
+export class PageFetcher {
+  private client: AxiosInstance;
+  private config: FetchConfig;
+  private cache: CacheStore<FetchedPage>;
+  private domainPolicy: DomainPolicy;
+
+  constructor(options: PageFetcherOptions = {}) {
+    this.config = options.fetch ?? DEFAULT_FETCH_CONFIG;
+    this.cache = options.fetch ? createCacheStore<FetchedPage>(this.config.cache) : new MemoryCacheStore<FetchedPage>(this.config.cache);
+    this.domainPolicy = new DomainPolicy(options.domainPolicy);
+    this.client = axios.create({
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; OpenWebNinjaMCP/1.0; +https://github.com/your-username/openwebninja-mcp-server)',
+        'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5'
+      },
+      responseType: 'stream',
+      maxRedirects: 0,
+      // Check the addresses a host name resolves to when connecting, so they can't change after the check
+      ...(this.config.allowPrivateHosts ? {} : {
+        httpAgent: new HttpAgent({ lookup: publicLookup }),
+        httpsAgent: new HttpsAgent({ lookup: publicLookup })
+      }),
+      validateStatus: () => true,
+      decompress: true
+    });
+  }
+
+  /**
+   * Fetch a page. The tool name selects the domain policy rules.
+   */
+  async fetchPage(params: FetchPageParams, tool: string = 'fetch_page'): Promise<APIResponse<FetchedPage>> {
+    try {
+      this.assertAllowed(params.url, tool);
+
+      const cacheKey = `page:${canonicalizeUrl(params.url)}`;
+      if (!params.no_cache && params.max_age !== 0) {
+        const cached = await this.readCache(cacheKey);
+        if (cached && (params.max_age === undefined || Date.now() - cached.storedAt <= params.max_age * 1000)) {
+          // The policy may have changed since the page was cached
+          this.assertAllowed(cached.value.final_url, tool);
+          return {
+            success: true,
+            data: {
+              ...this.limitContent(cached.value, params.max_chars),
+              cached: true,
+              cache_age: Math.floor((Date.now() - cached.storedAt) / 1000)
+            }
+          };
+        }
+      }
+
+      const page = await this.download(params.url, tool);
+      await this.writeCache(cacheKey, page);
+
+      return {
+        success: true,
+        data: { ...this.limitContent(page, params.max_chars), cached: false }
+      };
+    } catch (error: any) {
+      return { success: false, error: this.parseError(error) };
+    }
+  }
+
+  /**
+   * Fetch the pages of the first results of a search, a few at a time.
+   * Failures are reported per page rather than failing the search.
+   */
+  async fetchTopResults(data: WebSearchResponse, count: number, tool: string, maxChars: number): Promise<NonNullable<WebSearchResponse['pages']>> {
+    return mapWithConcurrency(data.results.slice(0, count), 3, async (result) => {
+      const fetched = await this.fetchPage({ url: result.url, max_chars: maxChars }, tool);
+      return fetched.success && fetched.data
+        ? { position: result.position, url: result.url, page: fetched.data }
+        : { position: result.position, url: result.url, error: fetched.error?.message || 'Unknown error' };
+    });
+  }
+
+  /**
+   * Follow redirects by hand so that every hop is checked, then read the body
+   */
+  private async download(url: string, tool: string): Promise<FetchedPage> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    const redirects: string[] = [];
+    let current = url;
+
+    try {
+      for (;;) {
+        this.assertPublicHost(current);
+
+        const response = await this.client.get<Readable>(current, {
+          timeout: this.config.timeoutMs,
+          signal: controller.signal
+        });
+
+        const location = response.headers['location'];
+        if (response.status >= 300 && response.status < 400 && location) {
+          response.data.destroy();
+          if (redirects.length >= this.config.maxRedirects) {
+            throw new PageFetchError(`Too many redirects (more than ${this.config.maxRedirects})`, 'TOO_MANY_REDIRECTS');
+          }
+          current = new URL(String(location), current).toString();
+          redirects.push(current);
+          this.assertAllowed(current, tool);
+          continue;
+        }
+
+        if (response.status >= 400) {
+          response.data.destroy();
+          throw new PageFetchError(`Page returned HTTP ${response.status}`, 'HTTP_ERROR', response.status);
+        }
+
+        const { body, truncated } = await this.readBody(response.data);
+        const contentType = String(response.headers['content-type'] ?? '');
+        return this.buildPage(url, current, response.status, contentType, body, truncated, redirects);
+      }
+    } catch (error: any) {
+      if (error?.cause instanceof PageFetchError) {
+        throw error.cause;
+      }
+      if (controller.signal.aborted || error?.code === 'ECONNABORTED') {
+        throw new PageFetchError(`Page did not load within ${Math.ceil(this.config.timeoutMs / 1000)} s`, 'TIMEOUT');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Read the body up to the size limit, dropping the rest of the download
+   */
+  private async readBody(stream: Readable): Promise<{ body: Buffer; truncated: boolean }> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of stream) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      if (size + buffer.length > this.config.maxBytes) {
+        chunks.push(buffer.subarray(0, this.config.maxBytes - size));
+        stream.destroy();
+        return { body: Buffer.concat(chunks), truncated: true };
+      }
+      chunks.push(buffer);
+      size += buffer.length;
+    }
+
+    return { body: Buffer.concat(chunks), truncated: false };
+  }
+
+  private buildPage(url: string, finalUrl: string, status: number, contentType: string, body: Buffer, truncated: boolean, redirects: string[]): FetchedPage {
+    const mimeType = contentType.split(';')[0].trim().toLowerCase();
+    const page: FetchedPage = {
+      url,
+      final_url: finalUrl,
+      status,
+      content_type: mimeType || 'unknown',
+      content: '',
+      word_count: 0,
+      truncated,
+      fetched_at: new Date().toISOString()
+    };
+
+    if (redirects.length > 0) {
+      page.redirects = redirects;
+    }
+
+    const text = () => PageFetcher.decode(body, contentType);
+    const looksLikeHtml = !mimeType && /^\s*</.test(body.subarray(0, 512).toString('latin1'));
+
+    if (HTML_TYPES.includes(mimeType) || looksLikeHtml) {
+      Object.assign(page, extractPage(text(), finalUrl));
+    } else if (mimeType.startsWith('text/') || /^application\/([\w.-]+\+)?(json|xml)$/.test(mimeType)) {
+      page.content = text().trim();
+    } else {
+      page.note = `Content type ${page.content_type} is not supported; only HTML and text pages are extracted`;
+    }
+
+    page.word_count = page.content ? page.content.split(/\s+/).length : 0;
+    return page;
+  }
+
+  /**
+   * Cut the content to the requested length, on a word boundary where possible
+   */
+  private limitContent(page: FetchedPage, maxChars: number = DEFAULT_MAX_CHARS): FetchedPage {
+    if (page.content.length <= maxChars) {
+      return page;
+    }
+    const cut = page.content.slice(0, maxChars);
+    const lastSpace = cut.lastIndexOf(' ');
+    return {
+      ...page,
+      content: `${lastSpace > maxChars * 0.8 ? cut.slice(0, lastSpace) : cut}…`,
+      truncated: true
+    };
+  }
+
+  private assertAllowed(url: string, tool: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new PageFetchError(`Not a valid URL: ${url}`, 'INVALID_URL');
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new PageFetchError('Only http and https URLs can be fetched', 'INVALID_URL');
+    }
+
+    if (this.domainPolicy.check(url, tool) !== 'allowed') {
+      throw new PageFetchError(`${parsed.hostname} is not allowed by the domain policy`, 'BLOCKED');
+    }
+  }
+
+  /**
+   * Refuse hosts on loopback, private and link-local networks, so the server
+   * cannot be used to reach internal services. Host names are checked as they
+   * are resolved for the connection, by publicLookup.
+   */
+  private assertPublicHost(url: string): void {
+    if (this.config.allowPrivateHosts) {
+      return;
+    }
+
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+    const isLocalName = hostname === 'localhost' || hostname.endsWith('.localhost');
+    if (isLocalName || (isIP(hostname) !== 0 && isPrivateAddress(hostname))) {
+      throw new PageFetchError(`${hostname} is a private address and cannot be fetched`, 'BLOCKED');
+    }
+  }
+
+  /**
+   * Decode a body with the charset from the Content-Type header or a <meta> tag, defaulting to UTF-8
+   */
+  private static decode(body: Buffer, contentType: string): string {
+    const head = body.subarray(0, 2048).toString('latin1');
+    const charset = /charset\s*=\s*["']?([\w-]+)/i.exec(contentType)?.[1]
+      ?? /<meta\b[^>]*charset\s*=\s*["']?([\w-]+)/i.exec(head)?.[1]
+      ?? 'utf-8';
+
+    try {
+      return new TextDecoder(charset).decode(body);
+    } catch {
+      return new TextDecoder('utf-8').decode(body);
+    }
+  }
+
+  private async readCache(key: string) {
+    try {
+      return await this.cache.get(key);
+    } catch (error) {
+      console.error('Page cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  private async writeCache(key: string, page: FetchedPage): Promise<void> {
+    try {
+      await this.cache.set(key, page);
+    } catch (error) {
+      console.error('Page cache write failed:', error);
+    }
+  }
+
+  private parseError(error: any): RapidAPIError {
+    if (error instanceof PageFetchError) {
+      return { message: error.message, code: error.code, status: error.status };
+    }
+    return { message: error?.message || 'Unknown error occurred', code: error?.code ?? 'NETWORK_ERROR' };
+  }
+}
+
+/**
+ * DNS lookup for the fetch agents that fails when a host name resolves to a
+ * private address. Connecting to the address checked here, rather than
+ * resolving the name a second time, keeps DNS rebinding from reaching internal hosts.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true } as LookupAllOptions, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+      callback(new PageFetchError(`${hostname} is a private address and cannot be fetched`, 'BLOCKED') as NodeJS.ErrnoException, '', 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
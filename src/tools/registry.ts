@@ -0,0 +1,155 @@
+import { OpenWebNinjaService } from '../services/openWebNinja.js';
+import { PageFetcher } from '../services/pageFetcher.js';
+import { SearchHistory } from '../resources/searchHistory.js';
+import { AuditLog, describeToolCall } from '../audit/auditLog.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { WebSearchHandler } from '../handlers/webSearch.js';
+import { BulkSearchHandler } from '../handlers/bulkSearch.js';
+import { AdvancedSearchHandler } from '../handlers/advancedSearch.js';
+import { MultiQuerySearchHandler } from '../handlers/multiQuerySearch.js';
+import { FetchPageHandler } from '../handlers/fetchPage.js';
+import { QuotaStatusHandler } from '../handlers/quotaStatus.js';
+import { SearchHistoryHandler } from '../handlers/searchHistory.js';
+import { GetSearchHandler } from '../handlers/getSearch.js';
+import { MCPTool, ToolCallContext, UNKNOWN_CALLER, WEB_SEARCH_TOOL, BULK_WEB_SEARCH_TOOL, ADVANCED_WEB_SEARCH_TOOL, MULTI_QUERY_SEARCH_TOOL, FETCH_PAGE_TOOL, QUOTA_STATUS_TOOL, SEARCH_HISTORY_TOOL, GET_SEARCH_TOOL } from '../types/mcp.js';
+
+/**
+ * Anything that can execute a tool call and return an MCP tool result
+ */
+export interface ToolHandler {
+  handle(params: any, context?: ToolCallContext): Promise<any>;
+}
+
+export interface ToolRegistryOptions {
+  /** Record every tool call, except to tools that only read server state */
+  auditLog?: AuditLog;
+}
+
+interface RegisteredTool {
+  definition: MCPTool;
+  handler: ToolHandler;
+}
+
+/**
+ * Registry of tool definitions and their handlers.
+ *
+ * Both the stdio server and the HTTP route mount the same registry, so a tool
+ * only needs to be added or fixed in one place.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+  private auditLog?: AuditLog;
+
+  constructor(options: ToolRegistryOptions = {}) {
+    this.auditLog = options.auditLog;
+  }
+
+  /**
+   * Register a tool definition with the handler that executes it
+   */
+  register(definition: MCPTool, handler: ToolHandler): this {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool already registered: ${definition.name}`);
+    }
+    this.tools.set(definition.name, { definition, handler });
+    return this;
+  }
+
+  /**
+   * Get the definitions of all registered tools, in registration order
+   */
+  list(): MCPTool[] {
+    return Array.from(this.tools.values()).map(({ definition: { serverStateOnly: _serverStateOnly, ...definition } }) => definition);
+  }
+
+  /**
+   * Check whether a tool only reads server state, so its calls cost nothing
+   */
+  isServerStateOnly(name: string): boolean {
+    return this.tools.get(name)?.definition.serverStateOnly === true;
+  }
+
+  /**
+   * Get the names of all registered tools
+   */
+  names(): string[] {
+    return Array.from(this.tools.keys());
+  }
+
+  /**
+   * Execute a tool call. Failures are reported as `isError` results rather
+   * than thrown, so every transport surfaces them the same way.
+   */
+  async call(name: string, args: any, context: ToolCallContext = {}): Promise<any> {
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      return {
+        content: [{
+          type: "text",
+          text: `Unknown tool: ${name}`
+        }],
+        isError: true
+      };
+    }
+
+    const startedAt = Date.now();
+    let result: any;
+    try {
+      result = await tool.handler.handle(args, context);
+    } catch (error) {
+      result = {
+        content: [{
+          type: "text",
+          text: `Tool execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        }],
+        isError: true
+      };
+    }
+
+    if (this.auditLog && !tool.definition.serverStateOnly) {
+      await this.auditLog.append({
+        tool: name,
+        arguments: args ?? {},
+        caller: context.caller ?? UNKNOWN_CALLER,
+        latency_ms: Date.now() - startedAt,
+        ...describeToolCall(args, result),
+        response: {
+          text: result.content?.map((item: any) => item.text).join('\n') ?? '',
+          structured: result.structuredContent
+        }
+      });
+    }
+
+    return result;
+  }
+}
+
+export interface ServerToolOptions {
+  /** Record successful searches for the search://history resources */
+  history?: SearchHistory;
+  /** Audit every tool call, and offer the search_history and get_search tools */
+  auditLog?: AuditLog;
+}
+
+/**
+ * Build the registry with every tool this server provides
+ */
+export function createToolRegistry(apiService: OpenWebNinjaService, rateLimiter: RateLimiter, pageFetcher: PageFetcher, options: ServerToolOptions = {}): ToolRegistry {
+  const { history, auditLog } = options;
+  const registry = new ToolRegistry({ auditLog })
+    .register(WEB_SEARCH_TOOL, new WebSearchHandler(apiService, rateLimiter, pageFetcher, history))
+    .register(BULK_WEB_SEARCH_TOOL, new BulkSearchHandler(apiService, rateLimiter, history))
+    .register(ADVANCED_WEB_SEARCH_TOOL, new AdvancedSearchHandler(apiService, rateLimiter, pageFetcher, history))
+    .register(MULTI_QUERY_SEARCH_TOOL, new MultiQuerySearchHandler(apiService, rateLimiter, history))
+    .register(FETCH_PAGE_TOOL, new FetchPageHandler(pageFetcher))
+    .register(QUOTA_STATUS_TOOL, new QuotaStatusHandler(apiService));
+
+  if (auditLog) {
+    registry
+      .register(SEARCH_HISTORY_TOOL, new SearchHistoryHandler(auditLog))
+      .register(GET_SEARCH_TOOL, new GetSearchHandler(auditLog));
+  }
+
+  return registry;
+}
@@ -0,0 +1,270 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Minimal stand-in for Node's ServerResponse that the SDK transport writes to.
+ *
+ * The SDK transport only uses writeHead/flushHeaders/write/end and the
+ * "close" event, so this pipes those calls into a Fetch API Response that
+ * Next.js route handlers can return, streaming SSE bodies as they are written.
+ */
+class ResponseBridge extends EventEmitter {
+  readonly response: Promise<Response>;
+  headersSent = false;
+  writableEnded = false;
+
+  private statusCode = 200;
+  private headers = new Headers();
+  private encoder = new TextEncoder();
+  private controller?: ReadableStreamDefaultController<Uint8Array>;
+  private resolveResponse!: (response: Response) => void;
+
+  constructor() {
+    super();
+    this.response = new Promise(resolve => {
+      this.resolveResponse = resolve;
+    });
+  }
+
+  writeHead(statusCode: number, headers?: Record<string, string>): this {
+    this.statusCode = statusCode;
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      this.headers.set(name, value);
+    }
+    return this;
+  }
+
+  flushHeaders(): void {
+    this.openStream();
+
+    // Next.js holds back response headers until the first body chunk, so
+    // start SSE streams with a comment line that clients ignore
+    if (this.headers.get('content-type') === 'text/event-stream') {
+      this.write(': stream opened\n\n');
+    }
+  }
+
+  write(chunk: string): boolean {
+    this.openStream();
+    try {
+      this.controller?.enqueue(this.encoder.encode(chunk));
+      return true;
+    } catch {
+      // The client went away; the SDK treats a false return as a failed write
+      return false;
+    }
+  }
+
+  end(chunk?: string): this {
+    if (this.writableEnded) {
+      return this;
+    }
+
+    if (!this.headersSent) {
+      // Nothing was streamed, so answer with a plain body
+      this.headersSent = true;
+      this.resolveResponse(new Response(chunk ?? null, { status: this.statusCode, headers: this.headers }));
+    } else {
+      if (chunk !== undefined) {
+        this.write(chunk);
+      }
+      try {
+        this.controller?.close();
+      } catch {
+        // Already closed by the client
+      }
+    }
+
+    this.writableEnded = true;
+    this.emit('close');
+    return this;
+  }
+
+  /**
+   * Resolve the Response with a streaming body the first time data is flushed
+   */
+  private openStream(): void {
+    if (this.headersSent) {
+      return;
+    }
+    this.headersSent = true;
+
+    const body = new ReadableStream<Uint8Array>({
+      start: controller => {
+        this.controller = controller;
+      },
+      cancel: () => {
+        this.writableEnded = true;
+        this.emit('close');
+      }
+    });
+
+    this.resolveResponse(new Response(body, { status: this.statusCode, headers: this.headers }));
+  }
+}
+
+/**
+ * Build a JSON-RPC error response for requests rejected before reaching a transport
+ */
+function jsonRpcError(status: number, code: number, message: string): Response {
+  return new Response(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    }),
+    {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    }
+  );
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActiveAt: number;
+  /** Requests whose responses are still open, such as SSE streams */
+  openRequests: number;
+}
+
+/** Default time a session is kept without requests: 30 minutes */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Serves the MCP Streamable HTTP transport from Fetch API Request/Response
+ * handlers, keeping one MCP server and transport per session.
+ *
+ * Sessions live in memory, so on serverless platforms a session only survives
+ * as long as the instance that created it. Clients receive a 404 for unknown
+ * sessions and are expected to re-initialize, as the specification requires.
+ * Sessions without requests or open streams for `idleTimeoutMs` are closed, so
+ * clients that go away without a DELETE don't leak their server and transport.
+ */
+export class StreamableHttpSessions {
+  private sessions = new Map<string, Session>();
+  private createServer: () => Server;
+  private idleTimeoutMs: number;
+
+  constructor(createServer: () => Server, idleTimeoutMs: number = DEFAULT_SESSION_IDLE_TIMEOUT_MS) {
+    this.createServer = createServer;
+    this.idleTimeoutMs = idleTimeoutMs;
+  }
+
+  /**
+   * Handle a POST, GET or DELETE request to the MCP endpoint
+   */
+  async handle(request: Request): Promise<Response> {
+    let body: unknown;
+    if (request.method === 'POST') {
+      try {
+        body = await request.json();
+      } catch {
+        return jsonRpcError(400, -32700, 'Parse error: Invalid JSON');
+      }
+    }
+
+    await this.closeIdleSessions();
+
+    const sessionId = request.headers.get('mcp-session-id');
+    let transport: StreamableHTTPServerTransport | undefined;
+    let session: Session | undefined;
+
+    if (sessionId) {
+      session = this.sessions.get(sessionId);
+      if (!session) {
+        return jsonRpcError(404, -32001, 'Session not found');
+      }
+      transport = session.transport;
+    } else if (request.method === 'POST' && this.isInitialization(body)) {
+      transport = await this.createTransport();
+    } else {
+      return jsonRpcError(400, -32000, 'Bad Request: No valid session ID provided');
+    }
+
+    const req = {
+      method: request.method,
+      url: new URL(request.url).pathname,
+      headers: Object.fromEntries(request.headers.entries())
+    } as unknown as IncomingMessage;
+    const res = new ResponseBridge();
+
+    if (session) {
+      this.trackRequest(session, res);
+    }
+
+    try {
+      await transport.handleRequest(req, res as unknown as ServerResponse, body);
+    } catch (error) {
+      if (!res.headersSent) {
+        return jsonRpcError(500, -32603, error instanceof Error ? error.message : 'Internal server error');
+      }
+    }
+
+    return res.response;
+  }
+
+  /**
+   * Get the number of open sessions on this instance
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Keep a session alive while a request's response is open
+   */
+  private trackRequest(session: Session, res: ResponseBridge): void {
+    session.openRequests++;
+    session.lastActiveAt = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActiveAt = Date.now();
+    });
+  }
+
+  /**
+   * Close sessions that have had no requests or open streams for the idle timeout
+   */
+  private async closeIdleSessions(): Promise<void> {
+    if (this.idleTimeoutMs <= 0) {
+      return;
+    }
+
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [sessionId, session] of Array.from(this.sessions.entries())) {
+      if (session.openRequests === 0 && session.lastActiveAt < cutoff) {
+        this.sessions.delete(sessionId);
+        await session.transport.close().catch(() => undefined);
+      }
+    }
+  }
+
+  private isInitialization(body: unknown): boolean {
+    if (Array.isArray(body)) {
+      return body.some(message => isInitializeRequest(message));
+    }
+    return isInitializeRequest(body);
+  }
+
+  private async createTransport(): Promise<StreamableHTTPServerTransport> {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { transport, lastActiveAt: Date.now(), openRequests: 0 });
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await this.createServer().connect(transport);
+    return transport;
+  }
+}
@@ -1,4 +1,13 @@
 // OpenWebNinja API Types
+
+/**
+ * Where a deduplicated result was found: the query and its position in that query's results
+ */
+export interface ResultAppearance {
+  query: string;
+  position: number;
+}
+
 export interface SearchResult {
   title: string;
   url: string;
@@ -7,6 +16,42 @@ export interface SearchResult {
   domain?: string;
   favicon?: string;
   date?: string;
+  /** Every place the page appeared, when duplicates were merged */
+  appearances?: ResultAppearance[];
+  relevance?: ResultRelevance;
+}
+
+/**
+ * Lexical match of a result against its query
+ */
+export interface ResultRelevance {
+  /** 0 to 1; 1 when every query term is in the title */
+  score: number;
+  /** The query terms and phrases found in the title, snippet or URL */
+  matched_terms: string[];
+}
+
+/**
+ * How a user query was understood, reported back to callers
+ */
+export interface ParsedQuery {
+  /** The normalized query that is sent to the search API */
+  query: string;
+  terms: string[];
+  phrases: string[];
+  /** Negated terms and phrases */
+  excluded: string[];
+  operators: { name: string; value: string; negated?: boolean }[];
+}
+
+/**
+ * Results removed by the server's domain policy
+ */
+export interface PolicyFilterCounts {
+  /** Results from blocklisted domains */
+  blocked: number;
+  /** Results from domains outside the allowlist */
+  not_allowed: number;
 }
 
 export interface WebSearchResponse {
@@ -15,38 +60,236 @@ export interface WebSearchResponse {
   search_time?: number;
   query: string;
   region?: string;
+  cached?: boolean;
+  cache_age?: number;
+  retries?: number;
+  offset?: number;
+  next_cursor?: string;
+  parsed_query?: ParsedQuery;
+  /** Results merged into an earlier result for the same page */
+  duplicates_removed?: number;
+  /** Present when a domain policy applies to the tool */
+  filtered?: PolicyFilterCounts;
+  /** Contents of the top results, when fetch_top_n is set */
+  pages?: { position: number; url: string; page?: FetchedPage; error?: string }[];
 }
 
 export interface BulkSearchResponse {
   searches: {
     query: string;
+    status: 'success' | 'error';
+    error?: string;
     results: SearchResult[];
     total_results?: number;
+    cached?: boolean;
+    retries?: number;
+    filtered?: PolicyFilterCounts;
+    parsed_query?: ParsedQuery;
   }[];
   search_time?: number;
+  duplicates_removed?: number;
+}
+
+export interface FusedSearchResult extends SearchResult {
+  /** Reciprocal rank fusion score: the sum over variants of weight / (k + rank) */
+  score: number;
+  /** The variants that returned the page, with its position in each */
+  appearances: ResultAppearance[];
+}
+
+export interface MultiQuerySearchResponse {
+  results: FusedSearchResult[];
+  variants: {
+    query: string;
+    weight: number;
+    status: 'success' | 'error';
+    error?: string;
+    result_count: number;
+    cached?: boolean;
+    retries?: number;
+    filtered?: PolicyFilterCounts;
+    parsed_query?: ParsedQuery;
+  }[];
+  /** Unique pages found across all variants, before max_results is applied */
+  total_results: number;
+  rrf_k: number;
+  search_time?: number;
+}
+
+/**
+ * A downloaded page with its readable text and metadata
+ */
+export interface FetchedPage {
+  /** The requested URL */
+  url: string;
+  /** The URL the content came from, after redirects */
+  final_url: string;
+  status: number;
+  content_type: string;
+  title?: string;
+  description?: string;
+  canonical_url?: string;
+  published_date?: string;
+  author?: string;
+  site_name?: string;
+  language?: string;
+  /** Readable text of HTML pages, or the body of other text types; empty for binary types */
+  content: string;
+  word_count: number;
+  /** Whether the download or the text was cut off at a size limit */
+  truncated: boolean;
+  redirects?: string[];
+  /** Why there is no content, e.g. for PDFs and images */
+  note?: string;
+  fetched_at: string;
+  cached?: boolean;
+  cache_age?: number;
+}
+
+export interface FetchPageParams {
+  url: string;
+  /** Longest content to return, in characters */
+  max_chars?: number;
+  max_age?: number;
+  no_cache?: boolean;
+}
+
+/**
+ * Whether a tool call was answered by the search API, from the cache, or both
+ */
+export type UpstreamStatus = 'fresh' | 'cached' | 'mixed' | 'failed';
+
+/**
+ * One tool call in the audit log
+ */
+export interface AuditRecord {
+  id: string;
+  timestamp: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  /** Who made the call: a hashed API key, client IP or session on HTTP, `stdio` otherwise */
+  caller: string;
+  latency_ms: number;
+  status: 'success' | 'error';
+  /** The query, the queries of a bulk or multi-query search joined with ` | `, or the fetched URL */
+  query?: string;
+  result_count?: number;
+  upstream?: UpstreamStatus;
+  retries?: number;
+  error?: string;
+  /** The tool's output, when responses are logged */
+  response?: {
+    text: string;
+    structured?: unknown;
+  };
 }
 
+/**
+ * An audit record without the logged response, as listed by search_history
+ */
+export type AuditSummary = Omit<AuditRecord, 'response'>;
+
+export interface SearchHistoryParams {
+  limit?: number;
+  tool?: string;
+  /** Only searches whose query contains this text, case-insensitively */
+  query?: string;
+  cursor?: string;
+}
+
+export interface SearchHistoryResponse {
+  searches: AuditSummary[];
+  next_cursor?: string;
+}
+
+export interface GetSearchParams {
+  id: string;
+}
+
+export type DateRange = 'past_day' | 'past_week' | 'past_month' | 'past_year';
+
+export type Device = 'desktop' | 'mobile';
+
+export type OutputFormat = 'markdown' | 'compact' | 'json' | 'csv' | 'jsonl';
+
 export interface SearchParams {
   query: string;
   max_results?: number;
   region?: string;
+  /** Interface language, e.g. `en` or `pt-BR` */
+  language?: string;
+  /** City-level location to search from, e.g. `Austin, Texas, United States` */
+  location?: string;
+  device?: Device;
   safe_search?: boolean;
   site_restrict?: string;
   file_type?: string;
-  date_range?: string;
+  date_range?: DateRange;
+  /** Start of an absolute date range, YYYY-MM-DD */
+  date_from?: string;
+  /** End of an absolute date range, YYYY-MM-DD */
+  date_to?: string;
+  intitle?: string;
+  inurl?: string;
+  intext?: string;
+  exact_phrase?: string;
+  any_of?: string[];
+  exclude_terms?: string[];
+  sites?: string[];
+  exclude_sites?: string[];
+  related?: string;
+  format?: OutputFormat;
+  max_age?: number;
+  no_cache?: boolean;
+  max_retries?: number;
+  cursor?: string;
+  page?: number;
+  /** Merge results that point to the same page */
+  dedupe?: boolean;
+  /** Fetch the contents of this many top results */
+  fetch_top_n?: number;
 }
 
 export interface BulkSearchParams {
   queries: string[];
   max_results_per_query?: number;
   region?: string;
+  language?: string;
+  location?: string;
+  device?: Device;
+  safe_search?: boolean;
+  format?: OutputFormat;
+  max_age?: number;
+  no_cache?: boolean;
+  max_retries?: number;
+  /** Merge results that point to the same page, within each query and across the batch */
+  dedupe?: boolean;
+}
+
+export interface MultiQuerySearchParams {
+  queries: string[];
+  /** Weight of each query variant in the fusion, in the order of queries */
+  weights?: number[];
+  max_results?: number;
+  max_results_per_query?: number;
+  rrf_k?: number;
+  region?: string;
+  language?: string;
+  location?: string;
+  device?: Device;
   safe_search?: boolean;
+  format?: OutputFormat;
+  max_age?: number;
+  no_cache?: boolean;
+  max_retries?: number;
 }
 
 export interface RapidAPIError {
   message: string;
   code?: string;
   status?: number;
+  retries?: number;
+  retry_after?: number;
 }
 
 export interface APIResponse<T> {
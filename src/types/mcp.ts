@@ -7,8 +7,378 @@ export interface MCPTool {
     properties: Record<string, any>;
     required: string[];
   };
+  outputSchema?: {
+    type: string;
+    properties: Record<string, any>;
+    required?: string[];
+  };
+  /**
+   * The tool only reads this server's state, such as the quota or the audit log,
+   * so its calls are not audited and don't count against client limits.
+   * Not sent to clients.
+   */
+  serverStateOnly?: boolean;
 }
 
+/**
+ * Who is making a tool call
+ */
+export interface ToolCallContext {
+  /** A hashed API key or MCP session on HTTP; `stdio` for the stdio server */
+  caller?: string;
+}
+
+/** Caller recorded for calls made without a context */
+export const UNKNOWN_CALLER = 'unknown';
+
+const FILTERED_SCHEMA = {
+  type: "object",
+  description: "Results removed by the server's domain policy; present when a policy applies to the tool",
+  properties: {
+    blocked: { type: "number", description: "Results from blocklisted domains" },
+    not_allowed: { type: "number", description: "Results from domains outside the allowlist" }
+  },
+  required: ["blocked", "not_allowed"]
+};
+
+// Output schemas, mirroring the SearchResult / WebSearchResponse / BulkSearchResponse types
+const SEARCH_RESULT_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    url: { type: "string" },
+    snippet: { type: "string" },
+    position: { type: "number", description: "1-based rank in the search results" },
+    domain: { type: "string" },
+    favicon: { type: "string" },
+    date: { type: "string" },
+    appearances: {
+      type: "array",
+      description: "Every query and position the page appeared at, when dedupe merged duplicates",
+      items: {
+        type: "object",
+        properties: {
+          query: { type: "string" },
+          position: { type: "number" }
+        },
+        required: ["query", "position"]
+      }
+    },
+    relevance: {
+      type: "object",
+      description: "Lexical match of the result against the query terms",
+      properties: {
+        score: { type: "number", description: "0 to 1; 1 when every query term is in the title" },
+        matched_terms: { type: "array", items: { type: "string" } }
+      },
+      required: ["score", "matched_terms"]
+    }
+  },
+  required: ["title", "url", "snippet", "position"]
+};
+
+export const FETCH_PAGE_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    url: { type: "string", description: "The requested URL" },
+    final_url: { type: "string", description: "The URL the content came from, after redirects" },
+    status: { type: "number" },
+    content_type: { type: "string" },
+    title: { type: "string" },
+    description: { type: "string" },
+    canonical_url: { type: "string" },
+    published_date: { type: "string" },
+    author: { type: "string" },
+    site_name: { type: "string" },
+    language: { type: "string" },
+    content: { type: "string", description: "Readable text of HTML pages, or the body of other text types" },
+    word_count: { type: "number" },
+    truncated: { type: "boolean", description: "Whether the download or the text was cut off at a size limit" },
+    redirects: { type: "array", items: { type: "string" } },
+    note: { type: "string", description: "Why there is no content, e.g. for PDFs and images" },
+    fetched_at: { type: "string", description: "When the page was downloaded (ISO 8601)" },
+    cached: { type: "boolean" },
+    cache_age: { type: "number", description: "Age of the cached page in seconds" }
+  },
+  required: ["url", "final_url", "status", "content_type", "content", "word_count", "truncated", "fetched_at"]
+};
+
+const PARSED_QUERY_SCHEMA = {
+  type: "object",
+  description: "How the query was understood: plain terms, quoted phrases, excluded terms and operators",
+  properties: {
+    query: { type: "string", description: "The normalized query sent to the search API" },
+    terms: { type: "array", items: { type: "string" } },
+    phrases: { type: "array", items: { type: "string" } },
+    excluded: { type: "array", items: { type: "string" } },
+    operators: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          value: { type: "string" },
+          negated: { type: "boolean" }
+        },
+        required: ["name", "value"]
+      }
+    }
+  },
+  required: ["query", "terms", "phrases", "excluded", "operators"]
+};
+
+export const WEB_SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    results: {
+      type: "array",
+      items: SEARCH_RESULT_SCHEMA
+    },
+    total_results: { type: "number" },
+    search_time: { type: "number" },
+    query: { type: "string", description: "The query that was sent to the search API" },
+    region: { type: "string" },
+    cached: { type: "boolean", description: "Whether the response was served from cache" },
+    cache_age: { type: "number", description: "Age of the cached response in seconds" },
+    retries: { type: "number", description: "Number of retried API requests before this response" },
+    offset: { type: "number", description: "Number of results before this page" },
+    next_cursor: { type: "string", description: "Pass as cursor to get the next page; absent on the last page" },
+    parsed_query: PARSED_QUERY_SCHEMA,
+    duplicates_removed: { type: "number", description: "Results merged into an earlier result for the same page, when dedupe is on" },
+    filtered: FILTERED_SCHEMA,
+    pages: {
+      type: "array",
+      description: "Pages of the first results, when fetch_top_n is set",
+      items: {
+        type: "object",
+        properties: {
+          position: { type: "number" },
+          url: { type: "string" },
+          page: FETCH_PAGE_OUTPUT_SCHEMA,
+          error: { type: "string" }
+        },
+        required: ["position", "url"]
+      }
+    }
+  },
+  required: ["results", "query"]
+};
+
+export const BULK_SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    searches: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          query: { type: "string" },
+          status: { type: "string", enum: ["success", "error"] },
+          error: { type: "string", description: "Why the query failed, when status is error" },
+          results: {
+            type: "array",
+            items: SEARCH_RESULT_SCHEMA
+          },
+          total_results: { type: "number" },
+          cached: { type: "boolean" },
+          retries: { type: "number" },
+          filtered: FILTERED_SCHEMA,
+          parsed_query: PARSED_QUERY_SCHEMA
+        },
+        required: ["query", "status", "results"]
+      }
+    },
+    search_time: { type: "number" },
+    duplicates_removed: { type: "number", description: "Results merged into an earlier result for the same page, when dedupe is on" }
+  },
+  required: ["searches"]
+};
+
+export const MULTI_QUERY_SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    results: {
+      type: "array",
+      items: {
+        ...SEARCH_RESULT_SCHEMA,
+        properties: {
+          ...SEARCH_RESULT_SCHEMA.properties,
+          position: { type: "number", description: "1-based rank in the fused list" },
+          score: { type: "number", description: "Reciprocal rank fusion score" },
+          appearances: {
+            ...SEARCH_RESULT_SCHEMA.properties.appearances,
+            description: "The variants that returned the page, with its position in each"
+          }
+        },
+        required: [...SEARCH_RESULT_SCHEMA.required, "score", "appearances"]
+      }
+    },
+    variants: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          query: { type: "string" },
+          weight: { type: "number" },
+          status: { type: "string", enum: ["success", "error"] },
+          error: { type: "string", description: "Why the variant failed, when status is error" },
+          result_count: { type: "number" },
+          cached: { type: "boolean" },
+          retries: { type: "number" },
+          filtered: FILTERED_SCHEMA,
+          parsed_query: PARSED_QUERY_SCHEMA
+        },
+        required: ["query", "weight", "status", "result_count"]
+      }
+    },
+    total_results: { type: "number", description: "Unique pages found across all variants, before max_results is applied" },
+    rrf_k: { type: "number" },
+    search_time: { type: "number" }
+  },
+  required: ["results", "variants", "total_results", "rrf_k"]
+};
+
+export const QUOTA_STATUS_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    state: { type: "string", enum: ["unknown", "ok", "low", "exhausted"] },
+    limit: { type: "number", description: "Calls allowed per quota window by the RapidAPI plan" },
+    remaining: { type: "number", description: "Calls left in the current quota window" },
+    reset_at: { type: "string", description: "When the quota window resets (ISO 8601)" },
+    reset_in_seconds: { type: "number" },
+    floor: { type: "number", description: "Calls held in reserve before searches are refused or throttled" },
+    calls_today: { type: "number", description: "Upstream calls made by this server since midnight UTC" },
+    updated_at: { type: "string", description: "When the quota was last reported by the API (ISO 8601)" }
+  },
+  required: ["state", "floor", "calls_today"]
+};
+
+const AUDIT_SUMMARY_PROPERTIES = {
+  id: { type: "string" },
+  timestamp: { type: "string", description: "When the call completed (ISO 8601)" },
+  tool: { type: "string" },
+  arguments: { type: "object" },
+  caller: { type: "string", description: "Hashed API key, client IP or session on HTTP; stdio otherwise" },
+  latency_ms: { type: "number" },
+  status: { type: "string", enum: ["success", "error"] },
+  query: { type: "string" },
+  result_count: { type: "number" },
+  upstream: { type: "string", enum: ["fresh", "cached", "mixed", "failed"] },
+  retries: { type: "number" },
+  error: { type: "string" }
+};
+
+const AUDIT_SUMMARY_REQUIRED = ["id", "timestamp", "tool", "arguments", "caller", "latency_ms", "status"];
+
+export const SEARCH_HISTORY_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    searches: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: AUDIT_SUMMARY_PROPERTIES,
+        required: AUDIT_SUMMARY_REQUIRED
+      }
+    },
+    next_cursor: { type: "string", description: "Pass as cursor to list older searches" }
+  },
+  required: ["searches"]
+};
+
+export const GET_SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    ...AUDIT_SUMMARY_PROPERTIES,
+    response: {
+      type: "object",
+      properties: {
+        text: { type: "string" },
+        structured: { type: "object" }
+      },
+      required: ["text"]
+    }
+  },
+  required: AUDIT_SUMMARY_REQUIRED
+};
+
+// Input properties shared by all search tools
+const FORMAT_PROPERTY = {
+  type: "string",
+  description: "Response format: verbose markdown, compact one-line-per-result listing, raw json, csv, or jsonl",
+  enum: ["markdown", "compact", "json", "csv", "jsonl"],
+  default: "markdown"
+};
+
+const MAX_AGE_PROPERTY = {
+  type: "number",
+  description: "Maximum age in seconds of a cached response to accept (0 forces a fresh search)",
+  minimum: 0
+};
+
+const NO_CACHE_PROPERTY = {
+  type: "boolean",
+  description: "Skip the response cache and always query the search API",
+  default: false
+};
+
+const REGION_PROPERTY = {
+  type: "string",
+  description: "ISO 3166-1 country code for localized results (e.g., 'us', 'gb', 'de'); 'uk' is accepted for the United Kingdom",
+  default: "us"
+};
+
+const LANGUAGE_PROPERTY = {
+  type: "string",
+  description: "ISO 639-1 interface language for result titles and snippets, optionally with a country (e.g., 'en', 'de', 'pt-BR')"
+};
+
+const LOCATION_PROPERTY = {
+  type: "string",
+  description: "City-level location to search from (e.g., 'Austin, Texas, United States')",
+  minLength: 2,
+  maxLength: 100
+};
+
+const DEVICE_PROPERTY = {
+  type: "string",
+  description: "Device to search as; mobile results can differ in ranking and snippets",
+  enum: ["desktop", "mobile"],
+  default: "desktop"
+};
+
+const DEDUPE_PROPERTY = {
+  type: "boolean",
+  description: "Merge results that point to the same page (ignoring tracking parameters, http/https, www. and AMP versions), listing where each appeared",
+  default: false
+};
+
+const CURSOR_PROPERTY = {
+  type: "string",
+  description: "Continue from a previous response by passing its next_cursor, with the same query and options"
+};
+
+const PAGE_PROPERTY = {
+  type: "number",
+  description: "1-based page of max_results results to return (alternative to cursor)",
+  minimum: 1
+};
+
+const MAX_RETRIES_PROPERTY = {
+  type: "number",
+  description: "How many times to retry rate-limited, failed or timed-out API requests (0-5, defaults to the server setting)",
+  minimum: 0,
+  maximum: 5
+};
+
+const FETCH_TOP_N_PROPERTY = {
+  type: "number",
+  description: "Also download the first N result pages and return their readable text (0-5; spends no search quota)",
+  minimum: 0,
+  maximum: 5,
+  default: 0
+};
+
 export const WEB_SEARCH_TOOL: MCPTool = {
   name: "web_search",
   description: "Search the web in real-time using Google SERP data. Returns up to 300 results with title, URL, and snippet for each result.",
@@ -26,19 +396,27 @@ export const WEB_SEARCH_TOOL: MCPTool = {
         maximum: 300,
         default: 10
       },
-      region: {
-        type: "string",
-        description: "Region code for localized results (e.g., 'us', 'uk', 'ca')",
-        default: "us"
-      },
+      region: REGION_PROPERTY,
+      language: LANGUAGE_PROPERTY,
+      location: LOCATION_PROPERTY,
+      device: DEVICE_PROPERTY,
       safe_search: {
         type: "boolean",
         description: "Enable safe search filtering",
         default: true
-      }
+      },
+      format: FORMAT_PROPERTY,
+      max_age: MAX_AGE_PROPERTY,
+      no_cache: NO_CACHE_PROPERTY,
+      max_retries: MAX_RETRIES_PROPERTY,
+      dedupe: DEDUPE_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      page: PAGE_PROPERTY,
+      fetch_top_n: FETCH_TOP_N_PROPERTY
     },
     required: ["query"]
-  }
+  },
+  outputSchema: WEB_SEARCH_OUTPUT_SCHEMA
 };
 
 export const BULK_WEB_SEARCH_TOOL: MCPTool = {
@@ -63,24 +441,29 @@ export const BULK_WEB_SEARCH_TOOL: MCPTool = {
         maximum: 50,
         default: 10
       },
-      region: {
-        type: "string",
-        description: "Region code for localized results",
-        default: "us"
-      },
+      region: REGION_PROPERTY,
+      language: LANGUAGE_PROPERTY,
+      location: LOCATION_PROPERTY,
+      device: DEVICE_PROPERTY,
       safe_search: {
         type: "boolean",
         description: "Enable safe search filtering",
         default: true
-      }
+      },
+      format: FORMAT_PROPERTY,
+      max_age: MAX_AGE_PROPERTY,
+      no_cache: NO_CACHE_PROPERTY,
+      max_retries: MAX_RETRIES_PROPERTY,
+      dedupe: DEDUPE_PROPERTY
     },
     required: ["queries"]
-  }
+  },
+  outputSchema: BULK_SEARCH_OUTPUT_SCHEMA
 };
 
 export const ADVANCED_WEB_SEARCH_TOOL: MCPTool = {
   name: "advanced_web_search",
-  description: "Search with Google advanced operators like site:, inurl:, intitle:, filetype:, and date ranges for precise results.",
+  description: "Search with Google advanced operators like site:, inurl:, intitle:, filetype:, and relative or absolute date ranges for precise results.",
   inputSchema: {
     type: "object",
     properties: {
@@ -92,6 +475,50 @@ export const ADVANCED_WEB_SEARCH_TOOL: MCPTool = {
         type: "string",
         description: "Restrict search to specific domain (e.g., 'github.com')"
       },
+      sites: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only results from any of these domains (site: joined with OR)",
+        maxItems: 10
+      },
+      exclude_sites: {
+        type: "array",
+        items: { type: "string" },
+        description: "Leave out results from these domains (-site:)",
+        maxItems: 10
+      },
+      exact_phrase: {
+        type: "string",
+        description: "Results must contain this exact phrase"
+      },
+      any_of: {
+        type: "array",
+        items: { type: "string" },
+        description: "Results must contain at least one of these terms (OR)",
+        maxItems: 10
+      },
+      exclude_terms: {
+        type: "array",
+        items: { type: "string" },
+        description: "Leave out results containing these terms (-term)",
+        maxItems: 10
+      },
+      intitle: {
+        type: "string",
+        description: "Word or phrase that must appear in the page title (intitle:)"
+      },
+      inurl: {
+        type: "string",
+        description: "Word or phrase that must appear in the URL (inurl:)"
+      },
+      intext: {
+        type: "string",
+        description: "Word or phrase that must appear in the page text (intext:)"
+      },
+      related: {
+        type: "string",
+        description: "Find sites similar to this domain (related:)"
+      },
       file_type: {
         type: "string",
         description: "Search for specific file types (e.g., 'pdf', 'doc', 'ppt')"
@@ -101,6 +528,16 @@ export const ADVANCED_WEB_SEARCH_TOOL: MCPTool = {
         description: "Time range for results",
         enum: ["past_day", "past_week", "past_month", "past_year"]
       },
+      date_from: {
+        type: "string",
+        description: "Only results from this date onward (YYYY-MM-DD). Cannot be combined with date_range",
+        pattern: "^\\d{4}-\\d{2}-\\d{2}$"
+      },
+      date_to: {
+        type: "string",
+        description: "Only results from before this date (YYYY-MM-DD). Cannot be combined with date_range",
+        pattern: "^\\d{4}-\\d{2}-\\d{2}$"
+      },
       max_results: {
         type: "number",
         description: "Maximum number of results to return",
@@ -108,14 +545,180 @@ export const ADVANCED_WEB_SEARCH_TOOL: MCPTool = {
         maximum: 300,
         default: 10
       },
-      region: {
+      region: REGION_PROPERTY,
+      language: LANGUAGE_PROPERTY,
+      location: LOCATION_PROPERTY,
+      device: DEVICE_PROPERTY,
+      format: FORMAT_PROPERTY,
+      max_age: MAX_AGE_PROPERTY,
+      no_cache: NO_CACHE_PROPERTY,
+      max_retries: MAX_RETRIES_PROPERTY,
+      dedupe: DEDUPE_PROPERTY,
+      cursor: CURSOR_PROPERTY,
+      page: PAGE_PROPERTY,
+      fetch_top_n: FETCH_TOP_N_PROPERTY
+    },
+    required: ["query"]
+  },
+  outputSchema: WEB_SEARCH_OUTPUT_SCHEMA
+};
+
+export const MULTI_QUERY_SEARCH_TOOL: MCPTool = {
+  name: "multi_query_search",
+  description: "Search several phrasings of the same question and merge them into one ranked list with reciprocal rank fusion. Pages found by several variants rank higher, and each result lists the variants that found it.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      queries: {
+        type: "array",
+        items: {
+          type: "string"
+        },
+        description: "Variants of the query to search and fuse",
+        minItems: 2,
+        maxItems: 10
+      },
+      weights: {
+        type: "array",
+        items: {
+          type: "number",
+          exclusiveMinimum: 0,
+          maximum: 10
+        },
+        description: "Weight of each variant in the fusion, in the order of queries (default: 1 each)"
+      },
+      max_results: {
+        type: "number",
+        description: "Maximum number of fused results to return",
+        minimum: 1,
+        maximum: 50,
+        default: 10
+      },
+      max_results_per_query: {
+        type: "number",
+        description: "Results to fetch for each variant",
+        minimum: 1,
+        maximum: 50,
+        default: 10
+      },
+      rrf_k: {
+        type: "number",
+        description: "Rank constant k in score = weight / (k + rank); lower values favor top-ranked results more",
+        minimum: 1,
+        maximum: 1000,
+        default: 60
+      },
+      region: REGION_PROPERTY,
+      language: LANGUAGE_PROPERTY,
+      location: LOCATION_PROPERTY,
+      device: DEVICE_PROPERTY,
+      safe_search: {
+        type: "boolean",
+        description: "Enable safe search filtering",
+        default: true
+      },
+      format: FORMAT_PROPERTY,
+      max_age: MAX_AGE_PROPERTY,
+      no_cache: NO_CACHE_PROPERTY,
+      max_retries: MAX_RETRIES_PROPERTY
+    },
+    required: ["queries"]
+  },
+  outputSchema: MULTI_QUERY_SEARCH_OUTPUT_SCHEMA
+};
+
+export const FETCH_PAGE_TOOL: MCPTool = {
+  name: "fetch_page",
+  description: "Download a web page and return its main readable text with metadata (title, description, canonical URL, published date). Follows redirects, respects the server's domain policy, and does not use any search quota.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      url: {
         type: "string",
-        description: "Region code for localized results",
-        default: "us"
+        description: "Absolute http(s) URL of the page to fetch"
+      },
+      max_chars: {
+        type: "number",
+        description: "Maximum number of characters of content to return",
+        minimum: 100,
+        maximum: 100000,
+        default: 20000
+      },
+      max_age: {
+        type: "number",
+        description: "Maximum age in seconds of a cached page to accept (0 forces a fresh download)",
+        minimum: 0
+      },
+      no_cache: {
+        type: "boolean",
+        description: "Skip the page cache and always download the page",
+        default: false
       }
     },
-    required: ["query"]
-  }
+    required: ["url"]
+  },
+  outputSchema: FETCH_PAGE_OUTPUT_SCHEMA
+};
+
+export const QUOTA_STATUS_TOOL: MCPTool = {
+  name: "quota_status",
+  description: "Report the RapidAPI plan quota as last seen by this server: remaining calls, when the quota resets, and calls spent today. Does not use any quota.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+    required: []
+  },
+  outputSchema: QUOTA_STATUS_OUTPUT_SCHEMA,
+  serverStateOnly: true
+};
+
+export const SEARCH_HISTORY_TOOL: MCPTool = {
+  name: "search_history",
+  description: "List your past tool calls from the audit log, newest first, with their query, result count, latency and upstream status. Does not use any quota.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      limit: {
+        type: "number",
+        description: "Maximum number of searches to list",
+        minimum: 1,
+        maximum: 100,
+        default: 20
+      },
+      tool: {
+        type: "string",
+        description: "Only list calls to this tool, e.g. web_search"
+      },
+      query: {
+        type: "string",
+        description: "Only list searches whose query contains this text (case-insensitive)"
+      },
+      cursor: {
+        type: "string",
+        description: "next_cursor from a previous call, to list older searches"
+      }
+    },
+    required: []
+  },
+  outputSchema: SEARCH_HISTORY_OUTPUT_SCHEMA,
+  serverStateOnly: true
+};
+
+export const GET_SEARCH_TOOL: MCPTool = {
+  name: "get_search",
+  description: "Re-open a past tool call from the audit log by its id, showing its arguments and the response it returned, without searching again. Does not use any quota.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Id of the search, as listed by search_history"
+      }
+    },
+    required: ["id"]
+  },
+  outputSchema: GET_SEARCH_OUTPUT_SCHEMA,
+  serverStateOnly: true
 };
 
-export const ALL_TOOLS = [WEB_SEARCH_TOOL, BULK_WEB_SEARCH_TOOL, ADVANCED_WEB_SEARCH_TOOL];
\ No newline at end of file
+export const ALL_TOOLS = [WEB_SEARCH_TOOL, BULK_WEB_SEARCH_TOOL, ADVANCED_WEB_SEARCH_TOOL, MULTI_QUERY_SEARCH_TOOL, FETCH_PAGE_TOOL, QUOTA_STATUS_TOOL, SEARCH_HISTORY_TOOL, GET_SEARCH_TOOL];
\ No newline at end of file
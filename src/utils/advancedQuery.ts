@@ -0,0 +1,86 @@
+import { SearchParams } from '../types/api.js';
+
+/**
+ * Assembly of Google operator queries from the structured advanced search arguments
+ */
+
+/**
+ * Quote a term if it contains whitespace, so multi-word values stay together
+ */
+function quote(term: string): string {
+  return /\s/.test(term) ? `"${term}"` : term;
+}
+
+/**
+ * Join alternatives with OR, grouped in parentheses when there is more than one
+ */
+function anyOf(terms: string[]): string {
+  return terms.length === 1 ? terms[0] : `(${terms.join(' OR ')})`;
+}
+
+/**
+ * Build the operators for every advanced argument that is set, in a stable order
+ */
+export function buildOperators(params: SearchParams): string[] {
+  const operators: string[] = [];
+
+  if (params.exact_phrase) {
+    operators.push(`"${params.exact_phrase}"`);
+  }
+
+  if (params.any_of?.length) {
+    operators.push(anyOf(params.any_of.map(quote)));
+  }
+
+  for (const term of params.exclude_terms ?? []) {
+    operators.push(`-${quote(term)}`);
+  }
+
+  if (params.intitle) {
+    operators.push(`intitle:${quote(params.intitle)}`);
+  }
+
+  if (params.inurl) {
+    operators.push(`inurl:${quote(params.inurl)}`);
+  }
+
+  if (params.intext) {
+    operators.push(`intext:${quote(params.intext)}`);
+  }
+
+  // site_restrict predates sites and is treated as one more allowed site
+  const sites = [...(params.site_restrict ? [params.site_restrict] : []), ...(params.sites ?? [])];
+  if (sites.length > 0) {
+    operators.push(anyOf(sites.map(site => `site:${site}`)));
+  }
+
+  for (const site of params.exclude_sites ?? []) {
+    operators.push(`-site:${site}`);
+  }
+
+  if (params.related) {
+    operators.push(`related:${params.related}`);
+  }
+
+  if (params.file_type) {
+    operators.push(`filetype:${params.file_type}`);
+  }
+
+  // Relative ranges go to the API's time filter; absolute ones are operators
+  if (params.date_from) {
+    operators.push(`after:${params.date_from}`);
+  }
+
+  if (params.date_to) {
+    operators.push(`before:${params.date_to}`);
+  }
+
+  return operators;
+}
+
+/**
+ * Build the full query sent to the search API for an advanced search
+ */
+export function buildAdvancedQuery(params: SearchParams): string {
+  return [params.query, ...buildOperators(params)].join(' ');
+}
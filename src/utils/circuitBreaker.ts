@@ -0,0 +1,164 @@
+/**
+ * Circuit breaker that fails fast while the upstream API is unhealthy
+ */
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  /** Failure rate (0-1) within the window that opens the circuit */
+  failureRateThreshold: number;
+  /** Minimum number of requests in the window before the rate is considered */
+  minimumRequests: number;
+  /** Length of the rolling window of recorded outcomes */
+  windowMs: number;
+  /** How long the circuit stays open before a probe request is allowed */
+  openDurationMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  failure_rate: number;
+  requests_in_window: number;
+  retry_after_seconds?: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  minimumRequests: 5,
+  windowMs: 60000,
+  openDurationMs: 30000
+};
+
+export class CircuitOpenError extends Error {
+  constructor(public retryAfterMs: number) {
+    super(`Upstream unavailable, retry after ${Math.ceil(retryAfterMs / 1000)} s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private options: CircuitBreakerOptions;
+  private outcomes: { time: number; failed: boolean }[] = [];
+  private state: CircuitState = 'closed';
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS) {
+    this.options = options;
+  }
+
+  /**
+   * Run an operation through the breaker. Only errors for which `isFailure`
+   * returns true count against the upstream's health.
+   */
+  async execute<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean = () => true): Promise<T> {
+    const isProbe = this.beforeRequest();
+
+    try {
+      const value = await operation();
+      this.recordOutcome(false, isProbe);
+      return value;
+    } catch (error) {
+      this.recordOutcome(isFailure(error), isProbe);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the current state for health checks
+   */
+  getStatus(): CircuitBreakerStatus {
+    this.refreshState();
+    const outcomes = this.currentOutcomes();
+    const failures = outcomes.filter(outcome => outcome.failed).length;
+
+    const status: CircuitBreakerStatus = {
+      state: this.state,
+      failure_rate: outcomes.length > 0 ? failures / outcomes.length : 0,
+      requests_in_window: outcomes.length
+    };
+
+    if (this.state === 'open') {
+      status.retry_after_seconds = Math.ceil(this.getRetryAfterMs() / 1000);
+    }
+
+    return status;
+  }
+
+  /**
+   * Close the circuit and forget recorded outcomes
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.outcomes = [];
+    this.probeInFlight = false;
+  }
+
+  /**
+   * Throw if the request must fail fast; returns whether it is the half-open probe
+   */
+  private beforeRequest(): boolean {
+    this.refreshState();
+
+    if (this.state === 'open') {
+      throw new CircuitOpenError(this.getRetryAfterMs());
+    }
+
+    if (this.state === 'half_open') {
+      if (this.probeInFlight) {
+        // Another request is already probing the upstream
+        throw new CircuitOpenError(1000);
+      }
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  private recordOutcome(failed: boolean, isProbe: boolean): void {
+    if (isProbe) {
+      this.probeInFlight = false;
+      if (failed) {
+        this.open();
+      } else {
+        this.reset();
+      }
+      return;
+    }
+
+    this.outcomes.push({ time: Date.now(), failed });
+    const outcomes = this.currentOutcomes();
+    this.outcomes = outcomes;
+
+    if (this.state === 'closed' && outcomes.length >= this.options.minimumRequests) {
+      const failures = outcomes.filter(outcome => outcome.failed).length;
+      if (failures / outcomes.length >= this.options.failureRateThreshold) {
+        this.open();
+      }
+    }
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.outcomes = [];
+  }
+
+  /**
+   * Move an open circuit to half-open once the open duration has passed
+   */
+  private refreshState(): void {
+    if (this.state === 'open' && this.getRetryAfterMs() === 0) {
+      this.state = 'half_open';
+    }
+  }
+
+  private getRetryAfterMs(): number {
+    return Math.max(0, this.openedAt + this.options.openDurationMs - Date.now());
+  }
+
+  private currentOutcomes(): { time: number; failed: boolean }[] {
+    const cutoff = Date.now() - this.options.windowMs;
+    return this.outcomes.filter(outcome => outcome.time > cutoff);
+  }
+}
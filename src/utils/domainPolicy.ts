@@ -0,0 +1,131 @@
+import { PolicyFilterCounts, SearchResult } from '../types/api.js';
+
+/**
+ * Server-side allow/deny policy for the domains of search results.
+ *
+ * Patterns without a wildcard match the domain and all of its subdomains, like
+ * Google's site: operator. Patterns with `*` are matched against the whole host,
+ * so `*.example.com` matches subdomains only and `*.gov` any host under gov.
+ */
+export interface DomainRules {
+  /** Domains whose results are always removed */
+  blocklist: string[];
+  /** When not empty, only results from these domains are kept */
+  allowlist: string[];
+  /** Add `-site:` operators for blocked domains to the query, so they don't take result slots */
+  injectExclusions: boolean;
+}
+
+export interface DomainPolicyOptions extends DomainRules {
+  /** Rules that replace the defaults for single tools, keyed by tool name */
+  tools: Record<string, Partial<DomainRules>>;
+}
+
+/** Google stops honoring operators in very long queries, so only the first exclusions are injected */
+export const MAX_INJECTED_EXCLUSIONS = 10;
+
+export const EMPTY_DOMAIN_POLICY: DomainPolicyOptions = {
+  blocklist: [],
+  allowlist: [],
+  injectExclusions: false,
+  tools: {}
+};
+
+/**
+ * Check whether a host matches a domain pattern
+ */
+export function matchesDomain(host: string, pattern: string): boolean {
+  const normalizedHost = host.toLowerCase().replace(/\.$/, '');
+
+  if (pattern.includes('*')) {
+    const regex = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\-]/g, '\\$&')).join('.+');
+    return new RegExp(`^${regex}$`).test(normalizedHost);
+  }
+
+  return normalizedHost === pattern || normalizedHost.endsWith(`.${pattern}`);
+}
+
+export class DomainPolicy {
+  private options: DomainPolicyOptions;
+
+  constructor(options: DomainPolicyOptions = EMPTY_DOMAIN_POLICY) {
+    this.options = options;
+  }
+
+  /**
+   * Get the rules that apply to a tool
+   */
+  getRules(tool: string): DomainRules {
+    return {
+      blocklist: this.options.blocklist,
+      allowlist: this.options.allowlist,
+      injectExclusions: this.options.injectExclusions,
+      ...this.options.tools[tool]
+    };
+  }
+
+  /**
+   * Whether any rule applies to a tool
+   */
+  isActive(tool: string): boolean {
+    const rules = this.getRules(tool);
+    return rules.blocklist.length > 0 || rules.allowlist.length > 0;
+  }
+
+  /**
+   * Check a URL against a tool's rules
+   */
+  check(url: string, tool: string): 'allowed' | 'blocked' | 'not_allowed' {
+    const rules = this.getRules(tool);
+    const host = DomainPolicy.hostOf(url);
+
+    if (host && rules.blocklist.some(pattern => matchesDomain(host, pattern))) {
+      return 'blocked';
+    }
+    if (rules.allowlist.length > 0 && !(host && rules.allowlist.some(pattern => matchesDomain(host, pattern)))) {
+      return 'not_allowed';
+    }
+    return 'allowed';
+  }
+
+  /**
+   * Remove the results a tool may not return, counting why each was removed
+   */
+  filter(results: SearchResult[], tool: string): { results: SearchResult[]; filtered: PolicyFilterCounts } {
+    const filtered: PolicyFilterCounts = { blocked: 0, not_allowed: 0 };
+
+    const kept = results.filter(result => {
+      const decision = this.check(result.url, tool);
+      if (decision !== 'allowed') {
+        filtered[decision]++;
+        return false;
+      }
+      return true;
+    });
+
+    return { results: kept, filtered };
+  }
+
+  /**
+   * Get the `-site:` operators to add to a tool's queries. Wildcard patterns have
+   * no site: equivalent and are only filtered.
+   */
+  getExclusions(tool: string): string[] {
+    const rules = this.getRules(tool);
+    if (!rules.injectExclusions) {
+      return [];
+    }
+    return rules.blocklist
+      .filter(pattern => !pattern.includes('*'))
+      .slice(0, MAX_INJECTED_EXCLUSIONS)
+      .map(pattern => `-site:${pattern}`);
+  }
+
+  private static hostOf(url: string): string | undefined {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return undefined;
+    }
+  }
+}
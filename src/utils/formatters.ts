@@ -0,0 +1,201 @@
+import { SearchResult, FusedSearchResult, WebSearchResponse, BulkSearchResponse, MultiQuerySearchResponse, OutputFormat, ParsedQuery, PolicyFilterCounts } from '../types/api.js';
+
+/**
+ * Output formats shared by the search tools.
+ * Markdown is rendered by each handler; the others are produced here.
+ */
+export const OUTPUT_FORMATS: OutputFormat[] = ['markdown', 'compact', 'json', 'csv', 'jsonl'];
+
+const CSV_COLUMNS: (keyof SearchResult)[] = ['position', 'title', 'url', 'snippet', 'domain', 'date', 'relevance'];
+
+/**
+ * Render a single search response in a non-markdown format
+ */
+export function formatSearchResponse(data: WebSearchResponse, format: Exclude<OutputFormat, 'markdown'>): string {
+  switch (format) {
+    case 'compact':
+      return [
+        `"${data.query}" - ${data.total_results || data.results.length} results`,
+        ...formatCompactLines(data.results),
+        ...(data.next_cursor ? [`next_cursor: ${data.next_cursor}`] : [])
+      ].join('\n');
+
+    case 'json':
+      return JSON.stringify(data, null, 2);
+
+    case 'csv':
+      return toCsv(CSV_COLUMNS, data.results.map(result => toCsvRow(result)));
+
+    case 'jsonl':
+      return data.results.map(result => JSON.stringify(result)).join('\n');
+  }
+}
+
+/**
+ * Render a bulk search response in a non-markdown format.
+ * Tabular formats flatten every query's results into one list with a query column;
+ * JSONL reports failed queries as `{ query, error }` lines.
+ */
+export function formatBulkSearchResponse(data: BulkSearchResponse, format: Exclude<OutputFormat, 'markdown'>): string {
+  switch (format) {
+    case 'compact':
+      return data.searches
+        .map(search => search.status === 'error'
+          ? `"${search.query}" - failed: ${search.error}`
+          : [`"${search.query}" - ${search.results.length} results`, ...formatCompactLines(search.results)].join('\n'))
+        .join('\n\n');
+
+    case 'json':
+      return JSON.stringify(data, null, 2);
+
+    case 'csv':
+      return toCsv(
+        ['query', ...CSV_COLUMNS],
+        data.searches.flatMap(search =>
+          search.results.map(result => [search.query, ...toCsvRow(result)])
+        )
+      );
+
+    case 'jsonl':
+      return data.searches
+        .flatMap(search => search.status === 'error'
+          ? [JSON.stringify({ query: search.query, error: search.error })]
+          : search.results.map(result => JSON.stringify({ query: search.query, ...result })))
+        .join('\n');
+  }
+}
+
+/**
+ * Render a fused multi-query response in a non-markdown format.
+ * Tabular formats add the fusion score and the variants that found each page.
+ */
+export function formatMultiQuerySearchResponse(data: MultiQuerySearchResponse, format: Exclude<OutputFormat, 'markdown'>): string {
+  // A variant can list the same page twice, so count each variant once
+  const variantsOf = (result: FusedSearchResult) => Array.from(new Set(result.appearances.map(appearance => appearance.query)));
+
+  switch (format) {
+    case 'compact':
+      return [
+        `${data.variants.length} variants - ${data.total_results} unique results`,
+        ...data.results.map(result => `${result.position}. ${result.title} | ${result.url} | ${variantsOf(result).length}/${data.variants.length} variants`)
+      ].join('\n');
+
+    case 'json':
+      return JSON.stringify(data, null, 2);
+
+    case 'csv':
+      return toCsv(
+        [...CSV_COLUMNS, 'score', 'variants'],
+        data.results.map(result => [...toCsvRow(result), result.score, variantsOf(result).join('; ')])
+      );
+
+    case 'jsonl':
+      return data.results.map(result => JSON.stringify(result)).join('\n');
+  }
+}
+
+/**
+ * Describe how a query was understood, for the markdown output.
+ * Returns undefined for plain keyword queries, where there is nothing to explain.
+ */
+export function describeParsedQuery(parsed: ParsedQuery): string | undefined {
+  if (parsed.phrases.length === 0 && parsed.excluded.length === 0 && parsed.operators.length === 0) {
+    return undefined;
+  }
+
+  const parts: string[] = [];
+  if (parsed.terms.length > 0) {
+    parts.push(`terms ${parsed.terms.join(', ')}`);
+  }
+  if (parsed.phrases.length > 0) {
+    parts.push(`${parsed.phrases.length === 1 ? 'phrase' : 'phrases'} ${parsed.phrases.map(phrase => `"${phrase}"`).join(', ')}`);
+  }
+  if (parsed.excluded.length > 0) {
+    parts.push(`excluding ${parsed.excluded.join(', ')}`);
+  }
+  for (const operator of parsed.operators) {
+    parts.push(`${operator.negated ? 'not ' : ''}${operator.name}:${operator.value}`);
+  }
+  return parts.join('; ');
+}
+
+/**
+ * Describe the results removed by the domain policy, for the markdown output.
+ * Returns undefined when nothing was removed.
+ */
+export function describeFiltered(filtered?: PolicyFilterCounts): string | undefined {
+  const total = filtered ? filtered.blocked + filtered.not_allowed : 0;
+  if (!filtered || total === 0) {
+    return undefined;
+  }
+
+  const reasons: string[] = [];
+  if (filtered.blocked > 0) {
+    reasons.push(`${filtered.blocked} blocked`);
+  }
+  if (filtered.not_allowed > 0) {
+    reasons.push(`${filtered.not_allowed} outside the allowed domains`);
+  }
+  return `${total} ${total === 1 ? 'result' : 'results'} hidden by the domain policy (${reasons.join(', ')})`;
+}
+
+/**
+ * Describe the other places a deduplicated result appeared, for the markdown output.
+ * Returns undefined when the page appeared only once.
+ */
+export function describeAppearances(result: SearchResult, query?: string): string | undefined {
+  const others = (result.appearances ?? []).slice(1);
+  if (others.length === 0) {
+    return undefined;
+  }
+
+  return others
+    .map(appearance => appearance.query === query ? `#${appearance.position}` : `"${appearance.query}" #${appearance.position}`)
+    .join(', ');
+}
+
+/**
+ * Describe how a result matched its query, for the markdown output.
+ * Returns undefined when the query had no terms to match.
+ */
+export function describeRelevance(result: SearchResult): string | undefined {
+  if (!result.relevance) {
+    return undefined;
+  }
+
+  const matched = result.relevance.matched_terms.map(term => term.includes(' ') ? `"${term}"` : term);
+  return `${result.relevance.score}${matched.length > 0 ? ` (matched ${matched.join(', ')})` : ' (no query terms matched)'}`;
+}
+
+/**
+ * One line per result: position, title and URL
+ */
+function formatCompactLines(results: SearchResult[]): string[] {
+  return results.map(result => `${result.position}. ${result.title} | ${result.url}`);
+}
+
+/**
+ * The CSV cells of a result; relevance is reduced to its score
+ */
+function toCsvRow(result: SearchResult): unknown[] {
+  return CSV_COLUMNS.map(column => column === 'relevance' ? result.relevance?.score : result[column]);
+}
+
+/**
+ * Build an RFC 4180 CSV document
+ */
+function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
@@ -0,0 +1,217 @@
+/**
+ * Extraction of readable text and metadata from HTML pages.
+ *
+ * This is a lightweight, dependency-free extractor: it drops scripts, styles
+ * and page chrome (navigation, headers, footers, sidebars, forms), prefers the
+ * <article> or <main> element when the page has one, and renders the rest as
+ * plain text with headings and list items marked up.
+ */
+export interface PageMetadata {
+  title?: string;
+  description?: string;
+  canonical_url?: string;
+  published_date?: string;
+  author?: string;
+  site_name?: string;
+  language?: string;
+}
+
+export interface ExtractedPage extends PageMetadata {
+  content: string;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', middot: '·', bull: '•', euro: '€', pound: '£', deg: '°'
+};
+
+/** Elements that never hold the main content */
+const REMOVED_ELEMENTS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'canvas', 'head'];
+const CHROME_ELEMENTS = ['nav', 'header', 'footer', 'aside', 'form', 'button', 'select', 'dialog'];
+
+/** Containers shorter than this are assumed to be teasers rather than the page's content */
+const MIN_CONTAINER_CHARS = 200;
+
+/**
+ * Decode HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Extract the metadata and the readable text of an HTML document.
+ * Relative canonical URLs are resolved against the page URL.
+ */
+export function extractPage(html: string, pageUrl: string): ExtractedPage {
+  return {
+    ...extractMetadata(html, pageUrl),
+    content: extractText(html)
+  };
+}
+
+function extractMetadata(html: string, pageUrl: string): PageMetadata {
+  const metadata: PageMetadata = {};
+  const meta = readMetaTags(html);
+
+  const title = meta['og:title'] ?? matchText(html, /<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  if (title) {
+    metadata.title = title;
+  }
+
+  const description = meta['description'] ?? meta['og:description'] ?? meta['twitter:description'];
+  if (description) {
+    metadata.description = description;
+  }
+
+  const canonical = readLinkHref(html, 'canonical') ?? meta['og:url'];
+  if (canonical) {
+    try {
+      metadata.canonical_url = new URL(canonical, pageUrl).toString();
+    } catch {
+      // Ignore malformed canonical links
+    }
+  }
+
+  const published = meta['article:published_time'] ?? meta['og:published_time'] ?? meta['datepublished']
+    ?? meta['date'] ?? meta['dc.date'] ?? meta['dc.date.issued'] ?? meta['pubdate']
+    ?? matchText(html, /"datePublished"\s*:\s*"([^"]+)"/i)
+    ?? matchAttribute(html, /<time\b[^>]*\bdatetime\s*=\s*("[^"]*"|'[^']*')/i);
+  if (published) {
+    metadata.published_date = published;
+  }
+
+  const author = meta['author'] ?? meta['article:author'];
+  if (author) {
+    metadata.author = author;
+  }
+
+  if (meta['og:site_name']) {
+    metadata.site_name = meta['og:site_name'];
+  }
+
+  const language = matchAttribute(html, /<html\b[^>]*\blang\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i);
+  if (language) {
+    metadata.language = language;
+  }
+
+  return metadata;
+}
+
+/**
+ * Render the main content of a page as plain text
+ */
+function extractText(html: string): string {
+  let body = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of REMOVED_ELEMENTS) {
+    body = removeElements(body, tag);
+  }
+
+  // Prefer the article or main element when it holds a real amount of text
+  for (const tag of ['article', 'main']) {
+    const container = innerHtmlOf(body, tag);
+    if (container && htmlToText(container).length >= MIN_CONTAINER_CHARS) {
+      body = container;
+      break;
+    }
+  }
+
+  for (const tag of CHROME_ELEMENTS) {
+    body = removeElements(body, tag);
+  }
+
+  return htmlToText(body);
+}
+
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<h([1-6])\b[^>]*>/gi, (_, level: string) => `\n\n${'#'.repeat(Number(level))} `)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|main|blockquote|pre|table|tr|ul|ol|dl|dt|dd|figure|figcaption|h[1-6])\b[^>]*>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[ \t\f\v\r\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Remove every element of a type, including its content
+ */
+function removeElements(html: string, tag: string): string {
+  return html
+    .replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}\\s*>`, 'gi'), ' ')
+    .replace(new RegExp(`<${tag}\\b[^>]*\\/>`, 'gi'), ' ');
+}
+
+/**
+ * Get the content of the first element of a type, up to its last closing tag
+ * so that nested elements of the same type stay inside
+ */
+function innerHtmlOf(html: string, tag: string): string | undefined {
+  const open = new RegExp(`<${tag}\\b[^>]*>`, 'i').exec(html);
+  if (!open) {
+    return undefined;
+  }
+  const close = html.toLowerCase().lastIndexOf(`</${tag}`);
+  return close > open.index ? html.slice(open.index + open[0].length, close) : undefined;
+}
+
+/**
+ * Collect <meta> tags by lowercased name, property or itemprop. The first tag wins.
+ */
+function readMetaTags(html: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+
+  for (const [tag] of Array.from(html.matchAll(/<meta\b[^>]*>/gi))) {
+    const attributes = readAttributes(tag);
+    const name = (attributes.name ?? attributes.property ?? attributes.itemprop)?.toLowerCase();
+    const content = attributes.content?.trim();
+    if (name && content && !(name in tags)) {
+      tags[name] = decodeEntities(content);
+    }
+  }
+
+  return tags;
+}
+
+function readLinkHref(html: string, rel: string): string | undefined {
+  for (const [tag] of Array.from(html.matchAll(/<link\b[^>]*>/gi))) {
+    const attributes = readAttributes(tag);
+    if (attributes.rel?.toLowerCase().split(/\s+/).includes(rel) && attributes.href) {
+      return decodeEntities(attributes.href.trim());
+    }
+  }
+  return undefined;
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of Array.from(tag.matchAll(/([a-z:_-]+)\s*=\s*("[^"]*"|'[^']*'|[^\s"'>]+)/gi))) {
+    attributes[match[1].toLowerCase()] = match[2].replace(/^["']|["']$/g, '');
+  }
+  return attributes;
+}
+
+function matchText(html: string, pattern: RegExp): string | undefined {
+  const match = pattern.exec(html);
+  const text = match && decodeEntities(match[1].replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+function matchAttribute(html: string, pattern: RegExp): string | undefined {
+  const match = pattern.exec(html);
+  const value = match && match[1].replace(/^["']|["']$/g, '').trim();
+  return value || undefined;
+}
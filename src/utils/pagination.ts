@@ -0,0 +1,49 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Opaque cursors for walking a result list one page at a time
+ */
+export interface PageCursor {
+  /** Fingerprint of the upstream request, so a cursor cannot be replayed against another query */
+  key: string;
+  offset: number;
+  size: number;
+}
+
+/** The search API does not return results past this offset */
+export const MAX_RESULT_OFFSET = 300;
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Fingerprint the request parameters that define a result list (everything but the paging)
+ */
+export function getResultListKey(requestParams: Record<string, string>): string {
+  const identity = Object.keys(requestParams)
+    .filter(name => name !== 'num' && name !== 'start')
+    .sort()
+    .map(name => [name, requestParams[name]]);
+  return createHash('sha256').update(JSON.stringify(identity)).digest('base64url').slice(0, 16);
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify([cursor.key, cursor.offset, cursor.size])).toString('base64url');
+}
+
+/**
+ * Decode a cursor, or return undefined if it is malformed
+ */
+export function decodeCursor(value: string): PageCursor | undefined {
+  try {
+    const [key, offset, size] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof key !== 'string' || !Number.isInteger(offset) || !Number.isInteger(size)) {
+      return undefined;
+    }
+    if (offset < 0 || offset >= MAX_RESULT_OFFSET || size < 1 || size > MAX_RESULT_OFFSET) {
+      return undefined;
+    }
+    return { key, offset, size };
+  } catch {
+    return undefined;
+  }
+}
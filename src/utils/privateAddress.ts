@@ -0,0 +1,125 @@
+import { BlockList, isIP } from 'node:net';
+
+/**
+ * Recognizes addresses on loopback, private, link-local and other non-public
+ * networks, including IPv4 addresses embedded in IPv6 ones.
+ */
+
+const PRIVATE_NETWORKS = new BlockList();
+
+// IPv4: this network, private, shared (CGNAT), loopback, link-local, IETF protocol
+// assignments, benchmarking, and multicast and reserved
+PRIVATE_NETWORKS.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('192.0.0.0', 24, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('198.18.0.0', 15, 'ipv4');
+PRIVATE_NETWORKS.addSubnet('224.0.0.0', 3, 'ipv4');
+
+// IPv6: unspecified, loopback, discard, local NAT64, unique local, link-local,
+// site-local and multicast
+PRIVATE_NETWORKS.addAddress('::', 'ipv6');
+PRIVATE_NETWORKS.addAddress('::1', 'ipv6');
+PRIVATE_NETWORKS.addSubnet('100::', 64, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('64:ff9b:1::', 48, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('fec0::', 10, 'ipv6');
+PRIVATE_NETWORKS.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Check whether an IP address is on a non-public network. IPv4-mapped
+ * (`::ffff:a.b.c.d`, also written `::ffff:7f00:1`), IPv4-compatible (`::a.b.c.d`),
+ * NAT64 (`64:ff9b::/96`) and 6to4 (`2002::/16`) addresses are checked as the
+ * IPv4 address they carry. Anything that isn't an IP address counts as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  if (isIP(host) === 4) {
+    return PRIVATE_NETWORKS.check(host, 'ipv4');
+  }
+  if (isIP(host) !== 6) {
+    return true;
+  }
+
+  const bytes = parseIPv6(host);
+  if (!bytes) {
+    return true;
+  }
+
+  const embedded = getEmbeddedIPv4(bytes);
+  if (embedded) {
+    return PRIVATE_NETWORKS.check(embedded, 'ipv4');
+  }
+  return PRIVATE_NETWORKS.check(formatIPv6(bytes), 'ipv6');
+}
+
+/**
+ * Parse an IPv6 address, including `::` and a trailing dotted IPv4 part, into its 16 bytes
+ */
+function parseIPv6(address: string): number[] | undefined {
+  let text = address.toLowerCase();
+
+  // A trailing IPv4 part, as in ::ffff:127.0.0.1, becomes two hex groups
+  const dotted = /^(.*:)(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (dotted) {
+    const octets = dotted[2].split('.').map(Number);
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return undefined;
+  }
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) {
+    return undefined;
+  }
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail].map(group => parseInt(group, 16));
+  if (groups.some(group => !Number.isInteger(group) || group < 0 || group > 0xffff)) {
+    return undefined;
+  }
+  return groups.flatMap(group => [group >> 8, group & 0xff]);
+}
+
+/**
+ * Get the IPv4 address carried by a mapped, compatible, NAT64 or 6to4 IPv6 address
+ */
+function getEmbeddedIPv4(bytes: number[]): string | undefined {
+  const isZero = (from: number, to: number) => bytes.slice(from, to).every(byte => byte === 0);
+  const toIPv4 = (from: number) => bytes.slice(from, from + 4).join('.');
+
+  // ::ffff:a.b.c.d
+  if (isZero(0, 10) && bytes[10] === 0xff && bytes[11] === 0xff) {
+    return toIPv4(12);
+  }
+  // ::a.b.c.d; :: and ::1 become 0.0.0.0 and 0.0.0.1, which are private too
+  if (isZero(0, 12)) {
+    return toIPv4(12);
+  }
+  // 64:ff9b::a.b.c.d
+  if (bytes[0] === 0x00 && bytes[1] === 0x64 && bytes[2] === 0xff && bytes[3] === 0x9b && isZero(4, 12)) {
+    return toIPv4(12);
+  }
+  // 2002:aabb:ccdd::
+  if (bytes[0] === 0x20 && bytes[1] === 0x02) {
+    return toIPv4(2);
+  }
+  return undefined;
+}
+
+function formatIPv6(bytes: number[]): string {
+  const groups: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+  return groups.join(':');
+}
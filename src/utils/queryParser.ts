@@ -0,0 +1,261 @@
+import { ParsedQuery } from '../types/api.js';
+
+/**
+ * Operator-aware parsing of user search queries.
+ *
+ * Queries are split into terms, quoted phrases, operators (`site:x`), `OR` and
+ * parentheses, checked for malformed operators, and serialized back into a
+ * normalized query that keeps phrases and apostrophes intact.
+ */
+export type QueryToken =
+  | { type: 'term'; value: string; negated: boolean }
+  | { type: 'phrase'; value: string; negated: boolean }
+  | { type: 'operator'; name: string; value: string; negated: boolean }
+  | { type: 'or' }
+  | { type: 'group'; value: '(' | ')' };
+
+export class QueryParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryParseError';
+  }
+}
+
+export const SUPPORTED_OPERATORS = [
+  'site', 'filetype', 'ext', 'intitle', 'allintitle', 'inurl', 'allinurl',
+  'intext', 'allintext', 'inanchor', 'related', 'after', 'before', 'define'
+];
+
+const DATE_OPERATORS = ['after', 'before'];
+
+/**
+ * Split a query into tokens. Throws QueryParseError for malformed operators.
+ */
+export function tokenizeQuery(query: string): QueryToken[] {
+  // Angle brackets and control characters never mean anything to the search API
+  const input = query.replace(/[<>\u0000-\u001f\u007f]/g, ' ');
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'group', value: char });
+      i++;
+      continue;
+    }
+
+    const negated = char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    const start = negated ? i + 1 : i;
+
+    if (input[start] === '"') {
+      const end = input.indexOf('"', start + 1);
+      if (end === -1) {
+        // A lone quote (e.g. 6" pipe) is dropped rather than swallowing the rest of the query
+        i = start + 1;
+        continue;
+      }
+      const phrase = normalizeSpace(input.slice(start + 1, end));
+      if (phrase) {
+        tokens.push({ type: 'phrase', value: phrase, negated });
+      }
+      i = end + 1;
+      continue;
+    }
+
+    const word = readWord(input, start);
+    i = start + word.length;
+
+    if (!word || word === '-') {
+      continue;
+    }
+
+    if (!negated && (word === 'OR' || word === '|')) {
+      tokens.push({ type: 'or' });
+      continue;
+    }
+
+    const operator = /^([a-z]+):(.*)$/i.exec(word);
+    if (operator) {
+      const name = operator[1].toLowerCase();
+      let value = operator[2];
+
+      // Quoted operator values, e.g. intitle:"release notes"
+      if (value === '' && input[i] === '"') {
+        const end = input.indexOf('"', i + 1);
+        if (end !== -1) {
+          value = normalizeSpace(input.slice(i + 1, end));
+          i = end + 1;
+        }
+      }
+
+      if (SUPPORTED_OPERATORS.includes(name)) {
+        tokens.push({ type: 'operator', name, value: validateOperatorValue(name, value), negated });
+        continue;
+      }
+
+      // Words like "re:Invent" or "localhost:3000" are terms; only near-misses of real operators are errors
+      const suggestion = value !== '' ? findSimilarOperator(name) : undefined;
+      if (suggestion) {
+        throw new QueryParseError(`Unknown operator "${name}:", did you mean "${suggestion}:"? Supported operators: ${SUPPORTED_OPERATORS.map(op => `${op}:`).join(', ')}`);
+      }
+    }
+
+    tokens.push({ type: 'term', value: word, negated });
+  }
+
+  const balanced = dropUnmatchedGroups(tokens);
+  validateStructure(balanced);
+  return balanced;
+}
+
+/**
+ * Serialize tokens back into a query string
+ */
+export function serializeQuery(tokens: QueryToken[]): string {
+  return tokens
+    .map(token => {
+      switch (token.type) {
+        case 'term':
+          return `${token.negated ? '-' : ''}${token.value}`;
+        case 'phrase':
+          return `${token.negated ? '-' : ''}"${token.value}"`;
+        case 'operator':
+          return `${token.negated ? '-' : ''}${token.name}:${/\s/.test(token.value) ? `"${token.value}"` : token.value}`;
+        case 'or':
+          return 'OR';
+        case 'group':
+          return token.value;
+      }
+    })
+    .join(' ')
+    .replace(/\( /g, '(')
+    .replace(/ \)/g, ')');
+}
+
+/**
+ * Parse, validate and normalize a query
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const tokens = tokenizeQuery(query);
+  const parsed: ParsedQuery = {
+    query: serializeQuery(tokens),
+    terms: [],
+    phrases: [],
+    excluded: [],
+    operators: []
+  };
+
+  for (const token of tokens) {
+    if (token.type === 'operator') {
+      parsed.operators.push(token.negated ? { name: token.name, value: token.value, negated: true } : { name: token.name, value: token.value });
+    } else if ((token.type === 'term' || token.type === 'phrase') && token.negated) {
+      parsed.excluded.push(token.value);
+    } else if (token.type === 'term') {
+      parsed.terms.push(token.value);
+    } else if (token.type === 'phrase') {
+      parsed.phrases.push(token.value);
+    }
+  }
+
+  if (parsed.query.length === 0) {
+    throw new QueryParseError('Query has no searchable terms');
+  }
+
+  return parsed;
+}
+
+/**
+ * Read up to the next whitespace, parenthesis or quote
+ */
+function readWord(input: string, start: number): string {
+  return /^[^\s()"]*/.exec(input.slice(start))![0];
+}
+
+/**
+ * Find a supported operator the name is probably a misspelling of
+ */
+function findSimilarOperator(name: string): string | undefined {
+  if (name.length < 4) {
+    return undefined;
+  }
+  const maxDistance = name.length < 6 ? 1 : 2;
+  return SUPPORTED_OPERATORS.find(operator => operator.length >= 4 && editDistance(name, operator) <= maxDistance);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function normalizeSpace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+function validateOperatorValue(name: string, value: string): string {
+  if (value === '') {
+    throw new QueryParseError(`Operator "${name}:" needs a value, e.g. ${name === 'site' ? 'site:example.com' : `${name}:keyword`}`);
+  }
+  if (DATE_OPERATORS.includes(name) && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) {
+    throw new QueryParseError(`Operator "${name}:" needs a date in YYYY-MM-DD format`);
+  }
+  if ((name === 'filetype' || name === 'ext') && !/^[a-z0-9]+$/i.test(value)) {
+    throw new QueryParseError(`Operator "${name}:" needs a file extension such as pdf`);
+  }
+  return value;
+}
+
+/**
+ * Drop parentheses without a partner, as in "smile :)", the way lone quotes are
+ * dropped, so plain text isn't mistaken for a broken group
+ */
+function dropUnmatchedGroups(tokens: QueryToken[]): QueryToken[] {
+  const unmatched = new Set<number>();
+  const open: number[] = [];
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'group') {
+      return;
+    }
+    if (token.value === '(') {
+      open.push(index);
+    } else if (open.length > 0) {
+      open.pop();
+    } else {
+      unmatched.add(index);
+    }
+  });
+  open.forEach(index => unmatched.add(index));
+
+  return tokens.filter((_, index) => !unmatched.has(index));
+}
+
+/**
+ * Reject OR without a term on both sides
+ */
+function validateStructure(tokens: QueryToken[]): void {
+  tokens.forEach((token, index) => {
+    if (token.type === 'or') {
+      const before = tokens[index - 1];
+      const after = tokens[index + 1];
+      const isOperand = (neighbor: QueryToken | undefined, open: '(' | ')') =>
+        neighbor !== undefined && neighbor.type !== 'or' && !(neighbor.type === 'group' && neighbor.value === open);
+      if (!isOperand(before, '(') || !isOperand(after, ')')) {
+        throw new QueryParseError('OR must be placed between two terms');
+      }
+    }
+  });
+}
@@ -0,0 +1,195 @@
+import { parseRateLimitReset } from './retry.js';
+
+/**
+ * Tracks the RapidAPI plan quota from response headers and guards the
+ * remaining calls once they drop to a configured floor
+ */
+export type QuotaFloorAction = 'refuse' | 'throttle';
+
+export interface QuotaOptions {
+  /** Calls to keep in reserve; requests are refused or throttled once remaining reaches it */
+  floor: number;
+  /** Refuse requests at the floor, or spread the remaining calls evenly until the reset */
+  action: QuotaFloorAction;
+  /** Longest a throttled request waits before it is refused instead, in milliseconds */
+  maxThrottleMs: number;
+}
+
+export interface QuotaStatus {
+  state: 'unknown' | 'ok' | 'low' | 'exhausted';
+  limit?: number;
+  remaining?: number;
+  reset_at?: string;
+  reset_in_seconds?: number;
+  floor: number;
+  calls_today: number;
+  updated_at?: string;
+}
+
+/**
+ * Quota figures parsed from one upstream response
+ */
+export interface QuotaHeaders {
+  limit?: number;
+  remaining?: number;
+  resetMs?: number;
+}
+
+export const DEFAULT_QUOTA_OPTIONS: QuotaOptions = {
+  floor: 0,
+  action: 'refuse',
+  maxThrottleMs: 5000
+};
+
+export class QuotaExhaustedError extends Error {
+  constructor(public remaining: number, public retryAfterMs: number) {
+    super(remaining > 0
+      ? `Upstream quota is down to its reserve of ${remaining} calls, retry after ${Math.ceil(retryAfterMs / 1000)} s`
+      : `Upstream quota exhausted, retry after ${Math.ceil(retryAfterMs / 1000)} s`);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+/**
+ * Read the quota headers RapidAPI sends (`x-ratelimit-requests-*`), falling
+ * back to the generic `x-ratelimit-*` names
+ */
+export function parseQuotaHeaders(headers: any, now: number = Date.now()): QuotaHeaders {
+  const read = (name: string): string | undefined =>
+    headers?.[`x-ratelimit-requests-${name}`] ?? headers?.[`x-ratelimit-${name}`];
+
+  const limit = parseInt(read('limit') ?? '', 10);
+  const remaining = parseInt(read('remaining') ?? '', 10);
+
+  return {
+    limit: Number.isFinite(limit) ? limit : undefined,
+    remaining: Number.isFinite(remaining) ? remaining : undefined,
+    resetMs: parseRateLimitReset(read('reset'), now)
+  };
+}
+
+export class QuotaTracker {
+  private options: QuotaOptions;
+  private limit?: number;
+  private remaining?: number;
+  private resetAt?: number;
+  private updatedAt?: number;
+  private day = QuotaTracker.dayOf(Date.now());
+  private callsToday = 0;
+  private nextCallAt = 0;
+
+  constructor(options: QuotaOptions = DEFAULT_QUOTA_OPTIONS) {
+    this.options = options;
+  }
+
+  /**
+   * Wait for or refuse a request according to the floor.
+   * Throws QuotaExhaustedError when the call must not be made.
+   */
+  async beforeRequest(): Promise<void> {
+    const now = Date.now();
+    this.refresh(now);
+
+    if (this.remaining === undefined || this.resetAt === undefined || this.remaining > this.options.floor) {
+      return;
+    }
+
+    const untilReset = this.resetAt - now;
+    if (this.remaining <= 0 || this.options.action === 'refuse') {
+      throw new QuotaExhaustedError(this.remaining, untilReset);
+    }
+
+    // Spread the reserve evenly over the rest of the quota window
+    const interval = untilReset / this.remaining;
+    const callAt = Math.max(now, this.nextCallAt);
+    if (callAt - now > this.options.maxThrottleMs) {
+      throw new QuotaExhaustedError(this.remaining, callAt - now);
+    }
+
+    this.nextCallAt = callAt + interval;
+    if (callAt > now) {
+      await new Promise(resolve => setTimeout(resolve, callAt - now));
+    }
+  }
+
+  /**
+   * Record a call that reached the upstream, with the headers of its response
+   */
+  record(headers: any): void {
+    const now = Date.now();
+    this.refresh(now);
+    this.callsToday++;
+
+    const quota = parseQuotaHeaders(headers, now);
+    if (quota.remaining === undefined) {
+      return;
+    }
+
+    this.remaining = quota.remaining;
+    this.limit = quota.limit ?? this.limit;
+    this.resetAt = quota.resetMs !== undefined ? now + quota.resetMs : this.resetAt;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Get the last known quota for the quota_status tool and health checks
+   */
+  getStatus(): QuotaStatus {
+    const now = Date.now();
+    this.refresh(now);
+
+    const status: QuotaStatus = {
+      state: this.getState(),
+      floor: this.options.floor,
+      calls_today: this.callsToday
+    };
+
+    if (this.limit !== undefined) {
+      status.limit = this.limit;
+    }
+    if (this.remaining !== undefined) {
+      status.remaining = this.remaining;
+    }
+    if (this.resetAt !== undefined) {
+      status.reset_at = new Date(this.resetAt).toISOString();
+      status.reset_in_seconds = Math.ceil((this.resetAt - now) / 1000);
+    }
+    if (this.updatedAt !== undefined) {
+      status.updated_at = new Date(this.updatedAt).toISOString();
+    }
+
+    return status;
+  }
+
+  private getState(): QuotaStatus['state'] {
+    if (this.remaining === undefined) {
+      return 'unknown';
+    }
+    if (this.remaining <= 0) {
+      return 'exhausted';
+    }
+    return this.remaining <= this.options.floor ? 'low' : 'ok';
+  }
+
+  /**
+   * Start a new day's count at midnight UTC and forget the remaining
+   * calls once the quota window has reset
+   */
+  private refresh(now: number): void {
+    const day = QuotaTracker.dayOf(now);
+    if (day !== this.day) {
+      this.day = day;
+      this.callsToday = 0;
+    }
+
+    if (this.resetAt !== undefined && now >= this.resetAt) {
+      this.remaining = this.limit;
+      this.resetAt = undefined;
+      this.nextCallAt = 0;
+    }
+  }
+
+  private static dayOf(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+  }
+}
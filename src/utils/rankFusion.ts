@@ -0,0 +1,55 @@
+import { FusedSearchResult, SearchResult } from '../types/api.js';
+import { getUrlKey } from './urls.js';
+
+/**
+ * Reciprocal rank fusion of the result lists of several query variants
+ */
+export interface RankedList {
+  query: string;
+  weight: number;
+  results: SearchResult[];
+}
+
+/** Rank offset from the original RRF paper; larger values flatten the gap between top and lower ranks */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Fuse ranked lists into one, scoring each page weight / (k + rank) per list it
+ * appears in. Pages are matched by canonical URL; the title and snippet come from
+ * the first list that returned the page. Ties keep the better best rank.
+ */
+export function fuseRankedLists(lists: RankedList[], k: number = DEFAULT_RRF_K): FusedSearchResult[] {
+  const fused = new Map<string, FusedSearchResult & { bestRank: number }>();
+
+  for (const list of lists) {
+    const counted = new Set<string>();
+
+    list.results.forEach((result, index) => {
+      const rank = index + 1;
+      const key = getUrlKey(result.url);
+      const existing = fused.get(key);
+      const appearance = { query: list.query, position: result.position };
+
+      // A page listed twice by the same variant only scores for its best rank
+      const score = counted.has(key) ? 0 : list.weight / (k + rank);
+      counted.add(key);
+
+      if (existing) {
+        existing.score += score;
+        existing.bestRank = Math.min(existing.bestRank, rank);
+        existing.appearances.push(appearance);
+        return;
+      }
+
+      fused.set(key, { ...result, score, appearances: [appearance], bestRank: rank });
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score || a.bestRank - b.bestRank)
+    .map(({ bestRank, ...result }, index) => ({
+      ...result,
+      position: index + 1,
+      score: Math.round(result.score * 1e6) / 1e6
+    }));
+}
@@ -1,60 +1,216 @@
 /**
- * Simple rate limiter to manage API request frequency
+ * Rate limiter to manage API request frequency.
+ *
+ * Supports a sliding window (at most `maxRequests` in any `windowMs`) and a
+ * token bucket (refills at `maxRequests` per `windowMs`, holds up to
+ * `burstSize` tokens). Callers can either fail immediately or wait for a slot.
  */
+export type RateLimitMode = 'sliding_window' | 'token_bucket';
+
+export interface RateLimitPolicy {
+  mode: RateLimitMode;
+  maxRequests: number;
+  windowMs: number;
+  /** Token bucket capacity; defaults to maxRequests */
+  burstSize?: number;
+}
+
+/**
+ * Serializable limiter state, so it can live in memory or in a shared store
+ */
+export interface RateLimitState {
+  requests: number[];
+  tokens: number;
+  lastRefill: number;
+}
+
+export interface RateLimiterOptions {
+  mode?: RateLimitMode;
+  /** Token bucket capacity; defaults to maxRequests */
+  burstSize?: number;
+  /** How long `acquire` waits for a slot by default, in milliseconds */
+  maxWaitMs?: number;
+}
+
+/**
+ * Create the state of a limiter that has not seen any requests
+ */
+export function createRateLimitState(policy: RateLimitPolicy, now: number = Date.now()): RateLimitState {
+  return {
+    requests: [],
+    tokens: getRateLimitCapacity(policy),
+    lastRefill: now
+  };
+}
+
+/**
+ * Get the most slots a single acquisition can ever take
+ */
+export function getRateLimitCapacity(policy: RateLimitPolicy): number {
+  return policy.mode === 'token_bucket' ? policy.burstSize ?? policy.maxRequests : policy.maxRequests;
+}
+
+/**
+ * Get time until `count` slots are available, in milliseconds.
+ * Refills tokens and drops expired requests from the state as a side effect.
+ */
+export function getRateLimitWait(policy: RateLimitPolicy, state: RateLimitState, count: number, now: number = Date.now()): number {
+  if (policy.mode === 'token_bucket') {
+    refillTokens(policy, state, now);
+    const missing = count - state.tokens;
+    return missing <= 0 ? 0 : Math.ceil(missing * policy.windowMs / policy.maxRequests);
+  }
+
+  pruneRequests(policy, state, now);
+  const excess = state.requests.length + count - policy.maxRequests;
+  if (excess <= 0) {
+    return 0;
+  }
+  const freeingRequest = state.requests[Math.min(excess, state.requests.length) - 1];
+  return Math.max(0, policy.windowMs - (now - freeingRequest));
+}
+
+/**
+ * Take `count` slots, regardless of whether they are available
+ */
+export function consumeRateLimit(policy: RateLimitPolicy, state: RateLimitState, count: number, now: number = Date.now()): void {
+  if (policy.mode === 'token_bucket') {
+    refillTokens(policy, state, now);
+    state.tokens -= count;
+    return;
+  }
+
+  for (let i = 0; i < count; i++) {
+    state.requests.push(now);
+  }
+}
+
+/**
+ * Get the number of slots in use (requests in the window, or spent tokens)
+ */
+export function getRateLimitUsage(policy: RateLimitPolicy, state: RateLimitState, now: number = Date.now()): number {
+  if (policy.mode === 'token_bucket') {
+    refillTokens(policy, state, now);
+    return Math.ceil(getRateLimitCapacity(policy) - state.tokens);
+  }
+
+  pruneRequests(policy, state, now);
+  return state.requests.length;
+}
+
+function refillTokens(policy: RateLimitPolicy, state: RateLimitState, now: number): void {
+  const refilled = (now - state.lastRefill) * policy.maxRequests / policy.windowMs;
+  state.tokens = Math.min(getRateLimitCapacity(policy), state.tokens + refilled);
+  state.lastRefill = now;
+}
+
+/**
+ * Remove old requests outside the window
+ */
+function pruneRequests(policy: RateLimitPolicy, state: RateLimitState, now: number): void {
+  state.requests = state.requests.filter(time => now - time < policy.windowMs);
+}
+
 export class RateLimiter {
-  private requests: number[] = [];
-  private maxRequests: number;
-  private windowMs: number;
+  private policy: RateLimitPolicy;
+  private state: RateLimitState;
+  private maxWaitMs: number;
+  private queue: Promise<unknown> = Promise.resolve();
 
-  constructor(maxRequests: number = 100, windowMs: number = 60000) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
+  constructor(maxRequests: number = 100, windowMs: number = 60000, options: RateLimiterOptions = {}) {
+    this.policy = {
+      mode: options.mode ?? 'sliding_window',
+      maxRequests,
+      windowMs,
+      burstSize: options.burstSize
+    };
+    this.maxWaitMs = options.maxWaitMs ?? 0;
+    this.state = createRateLimitState(this.policy);
   }
 
   /**
    * Check if a request can be made
    */
   canMakeRequest(): boolean {
-    const now = Date.now();
-    
-    // Remove old requests outside the window
-    this.requests = this.requests.filter(time => now - time < this.windowMs);
-    
-    return this.requests.length < this.maxRequests;
+    return this.getWaitTime(1) === 0;
   }
 
   /**
    * Record a request
    */
   recordRequest(): void {
-    this.requests.push(Date.now());
+    consumeRateLimit(this.policy, this.state, 1);
+  }
+
+  /**
+   * Atomically take `count` slots if they are all available right now
+   */
+  tryAcquire(count: number = 1): boolean {
+    if (this.getWaitTime(count) !== 0) {
+      return false;
+    }
+    consumeRateLimit(this.policy, this.state, count);
+    return true;
+  }
+
+  /**
+   * Take `count` slots, waiting up to `maxWaitMs` for them to free up.
+   * Waiters are served in order, so a large bulk reservation is not starved
+   * by later single requests. Resolves to false if the slots cannot be had in time.
+   */
+  acquire(count: number = 1, maxWaitMs: number = this.maxWaitMs): Promise<boolean> {
+    if (count > this.getCapacity()) {
+      return Promise.resolve(false);
+    }
+
+    const deadline = Date.now() + maxWaitMs;
+    const result = this.queue.then(async () => {
+      while (!this.tryAcquire(count)) {
+        const wait = this.getWaitTime(count);
+        if (Date.now() + wait > deadline) {
+          return false;
+        }
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      return true;
+    });
+
+    this.queue = result;
+    return result;
+  }
+
+  /**
+   * Get time until `count` slots are available, in milliseconds
+   */
+  getWaitTime(count: number = 1): number {
+    return getRateLimitWait(this.policy, this.state, count);
   }
 
   /**
    * Get time until next request is allowed
    */
   getTimeUntilReset(): number {
-    if (this.requests.length === 0) return 0;
-    
-    const oldestRequest = Math.min(...this.requests);
-    const timeUntilReset = this.windowMs - (Date.now() - oldestRequest);
-    
-    return Math.max(0, timeUntilReset);
+    return this.getWaitTime(1);
   }
 
   /**
-   * Get current request count in window
+   * Get current request count in window (slots in use for the token bucket)
    */
   getCurrentCount(): number {
-    const now = Date.now();
-    this.requests = this.requests.filter(time => now - time < this.windowMs);
-    return this.requests.length;
+    return getRateLimitUsage(this.policy, this.state);
+  }
+
+  /**
+   * Get the most slots a single acquisition can ever take
+   */
+  getCapacity(): number {
+    return getRateLimitCapacity(this.policy);
   }
 
   /**
    * Reset the rate limiter
    */
   reset(): void {
-    this.requests = [];
+    this.state = createRateLimitState(this.policy);
   }
-}
\ No newline at end of file
+}
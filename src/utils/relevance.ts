@@ -0,0 +1,204 @@
+import { ResultRelevance, SearchResult } from '../types/api.js';
+import { parseQuery } from './queryParser.js';
+
+/**
+ * Lexical relevance of results to their query, and snippets trimmed and
+ * highlighted around the query terms.
+ *
+ * Terms match at the start of a word, with common English suffixes, so `fox`
+ * matches `Foxes` but not `Firefox`. Phrases match as a whole, across any
+ * whitespace.
+ */
+
+/** Operators whose values are words the page should contain */
+const TEXT_OPERATORS = ['intitle', 'allintitle', 'intext', 'allintext'];
+
+/** Words too common to explain why a result matched, unless the query has nothing else */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with'
+]);
+
+/** Weight of a term found in the title, the snippet or only the URL */
+const FIELD_WEIGHTS = { title: 1, snippet: 0.6, url: 0.3 };
+
+const SUFFIXES = '(?:s|es|ed|ing|er|ers|ly)?';
+
+const WORD_CHARACTER = new RegExp('[\\p{L}\\p{N}]', 'u');
+const EDGE_PUNCTUATION = new RegExp('^[^\\p{L}\\p{N}]+|[^\\p{L}\\p{N}]+$', 'gu');
+
+/**
+ * Get the words and phrases of one or more queries that results should match.
+ * Excluded terms and operators other than intitle/intext are left out.
+ */
+export function getMatchTerms(queries: string | string[]): string[] {
+  const words: string[] = [];
+  const phrases: string[] = [];
+
+  for (const query of Array.isArray(queries) ? queries : [queries]) {
+    try {
+      const parsed = parseQuery(query);
+      words.push(...parsed.terms.filter(term => term !== 'OR'));
+      phrases.push(...parsed.phrases);
+      for (const operator of parsed.operators) {
+        if (operator.negated || !TEXT_OPERATORS.includes(operator.name)) {
+          continue;
+        }
+        // intitle:"a b" needs the phrase; allintitle: needs each of its words
+        if (operator.name.startsWith('all')) {
+          words.push(...operator.value.split(/\s+/));
+        } else {
+          (operator.value.includes(' ') ? phrases : words).push(operator.value);
+        }
+      }
+    } catch {
+      // Queries reach here already validated; anything unparsable just has no terms
+    }
+  }
+
+  const normalizedWords = words.map(normalizeTerm).filter(word => WORD_CHARACTER.test(word));
+  const meaningful = normalizedWords.filter(word => !STOPWORDS.has(word));
+  const terms = [...phrases.map(normalizeTerm).filter(Boolean), ...(meaningful.length > 0 ? meaningful : normalizedWords)];
+
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Score how well a result matches the query terms, from 0 to 1: the average over
+ * the terms of the weight of the best field each was found in
+ */
+export function scoreRelevance(result: SearchResult, terms: string[]): ResultRelevance | undefined {
+  if (terms.length === 0) {
+    return undefined;
+  }
+
+  let total = 0;
+  const matched: string[] = [];
+
+  for (const term of terms) {
+    const pattern = buildTermPattern(term);
+    const weight = pattern.test(result.title) ? FIELD_WEIGHTS.title
+      : pattern.test(result.snippet) ? FIELD_WEIGHTS.snippet
+      : pattern.test(decodeUrl(result.url)) ? FIELD_WEIGHTS.url
+      : 0;
+
+    if (weight > 0) {
+      total += weight;
+      matched.push(term);
+    }
+  }
+
+  return {
+    score: Math.round((total / terms.length) * 100) / 100,
+    matched_terms: matched
+  };
+}
+
+/**
+ * Add a relevance score to every result
+ */
+export function annotateRelevance<T extends SearchResult>(results: T[], terms: string[]): T[] {
+  if (terms.length === 0) {
+    return results;
+  }
+  return results.map(result => ({ ...result, relevance: scoreRelevance(result, terms) }));
+}
+
+/**
+ * Trim a snippet to at most maxLength characters on word boundaries, keeping the
+ * stretch with the most matched terms, and bold the matches for markdown
+ */
+export function highlightSnippet(snippet: string, terms: string[], maxLength: number = 300): string {
+  const text = snippet.replace(/\s+/g, ' ').trim();
+  const pattern = terms.length > 0 ? buildCombinedPattern(terms) : undefined;
+  const matches = pattern ? Array.from(text.matchAll(pattern)).map(match => ({ start: match.index!, end: match.index! + match[0].length })) : [];
+
+  let start = 0;
+  let end = text.length;
+
+  if (text.length > maxLength) {
+    start = chooseWindowStart(matches, text.length, maxLength);
+    end = Math.min(text.length, start + maxLength);
+
+    // Snap both ends inwards to word boundaries
+    if (start > 0) {
+      const space = text.indexOf(' ', start);
+      start = space >= 0 && space < end ? space + 1 : start;
+    }
+    if (end < text.length) {
+      const space = text.lastIndexOf(' ', end);
+      end = space > start ? space : end;
+    }
+  }
+
+  // Matches separated only by a space are bolded as one run
+  const runs: { start: number; end: number }[] = [];
+  for (const match of matches.filter(match => match.start >= start && match.end <= end)) {
+    const last = runs[runs.length - 1];
+    if (last && text.slice(last.end, match.start) === ' ') {
+      last.end = match.end;
+    } else {
+      runs.push({ ...match });
+    }
+  }
+
+  let output = '';
+  let cursor = start;
+  for (const run of runs) {
+    output += `${text.slice(cursor, run.start)}**${text.slice(run.start, run.end)}**`;
+    cursor = run.end;
+  }
+  output += text.slice(cursor, end);
+
+  return `${start > 0 ? '…' : ''}${output.trim()}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Pick the window start that covers the most matches, leading with a little
+ * context before the first of them
+ */
+function chooseWindowStart(matches: { start: number; end: number }[], length: number, maxLength: number): number {
+  const context = Math.floor(maxLength / 5);
+  let best = 0;
+  let bestCount = matches.filter(match => match.end <= maxLength).length;
+
+  for (const match of matches) {
+    const start = Math.max(0, Math.min(match.start - context, length - maxLength));
+    const count = matches.filter(other => other.start >= start && other.end <= start + maxLength).length;
+    if (count > bestCount) {
+      best = start;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+function normalizeTerm(term: string): string {
+  return term.toLowerCase().replace(EDGE_PUNCTUATION, '').replace(/\s+/g, ' ');
+}
+
+function termSource(term: string): string {
+  const escaped = term.split(' ').map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+');
+  return `(?<![\\p{L}\\p{N}])${escaped}${term.includes(' ') ? '' : SUFFIXES}(?![\\p{L}\\p{N}])`;
+}
+
+function buildTermPattern(term: string): RegExp {
+  return new RegExp(termSource(term), 'iu');
+}
+
+/**
+ * One pattern for all terms, longest first so phrases win over their words
+ */
+function buildCombinedPattern(terms: string[]): RegExp {
+  const sources = [...terms].sort((a, b) => b.length - a.length).map(termSource);
+  return new RegExp(sources.join('|'), 'giu');
+}
+
+function decodeUrl(url: string): string {
+  try {
+    return decodeURIComponent(url).replace(/[-_/.+]/g, ' ');
+  } catch {
+    return url.replace(/[-_/.+]/g, ' ');
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Retry with exponential backoff for upstream API calls
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000
+};
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'EAI_AGAIN', 'ECONNREFUSED'];
+
+/**
+ * Whether an axios error is worth retrying: rate limits, server errors,
+ * timeouts and dropped connections
+ */
+export function isRetryableError(error: any): boolean {
+  const status = error?.response?.status;
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.includes(status);
+  }
+  return RETRYABLE_CODES.includes(error?.code);
+}
+
+/**
+ * Delay the upstream asked for via `Retry-After`, or via `x-ratelimit-reset`
+ * on a 429, in milliseconds
+ */
+export function getServerRetryDelay(error: any, now: number = Date.now()): number | undefined {
+  const headers = error?.response?.headers;
+  if (!headers) {
+    return undefined;
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  if (error.response.status === 429) {
+    return parseRateLimitReset(headers['x-ratelimit-reset'], now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse an `x-ratelimit-reset` header into milliseconds until the reset.
+ * The value is either seconds until the window resets or an epoch timestamp in seconds.
+ */
+export function parseRateLimitReset(value: unknown, now: number = Date.now()): number | undefined {
+  const reset = parseInt(String(value ?? ''), 10);
+  if (!Number.isFinite(reset) || reset <= 0) {
+    return undefined;
+  }
+  return reset > 1e9 ? Math.max(0, reset * 1000 - now) : reset * 1000;
+}
+
+/**
+ * Exponential backoff with full jitter for the given (1-based) attempt
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Run an operation, retrying retryable failures until the policy is exhausted.
+ * Waits longer than `maxDelayMs` demanded by the server are not honored;
+ * the last error is thrown instead so the caller can report it.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy
+): Promise<{ value: T; attempts: number }> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await operation(attempt), attempts: attempt };
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const serverDelay = getServerRetryDelay(error);
+      if (serverDelay !== undefined && serverDelay > policy.maxDelayMs) {
+        throw error;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, serverDelay ?? getBackoffDelay(attempt, policy)));
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { ResultAppearance, SearchResult } from '../types/api.js';
+
+/**
+ * URL canonicalization and deduplication of search results.
+ *
+ * Canonical URLs are still the address of the page: tracking parameters,
+ * fragments and AMP wrappers are removed, but the scheme and host are kept.
+ * Duplicates are matched on a looser key that also ignores http vs https,
+ * `www.` and trailing slashes.
+ */
+
+/** Query parameters that only identify the campaign or click, never the page */
+const TRACKING_PARAMS = new Set([
+  'gclid', 'gclsrc', 'dclid', 'fbclid', 'msclkid', 'yclid', 'twclid', 'igshid', 'srsltid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', 'mkt_tok', 'ocid', 'cmpid', 's_cid', 'spm', 'ref_src', 'ref_url',
+  '_hsenc', '_hsmi', '__hstc', '__hssc', '__hsfp', 'hsctatracking', 'vero_id', 'wt_mc',
+  'oly_enc_id', 'oly_anon_id', 'rb_clickid', 'amp', 'outputtype'
+]);
+
+/**
+ * Canonicalize a result URL, or return it unchanged if it cannot be parsed
+ */
+export function canonicalizeUrl(value: string): string {
+  let url: URL;
+  try {
+    url = unwrapAmpUrl(new URL(value.trim()));
+  } catch {
+    return value;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return value;
+  }
+
+  // amp.example.com serves the AMP copy of example.com, but amp.dev is a site of its own
+  if (url.hostname.startsWith('amp.') && url.hostname.split('.').length > 2) {
+    url.hostname = url.hostname.slice(4);
+  }
+  url.pathname = url.pathname.replace(/\/amp\/?$/i, '/').replace(/\.amp(\.html?)$/i, '$1');
+
+  for (const name of Array.from(url.searchParams.keys())) {
+    if (name.toLowerCase().startsWith('utm_') || TRACKING_PARAMS.has(name.toLowerCase())) {
+      url.searchParams.delete(name);
+    }
+  }
+  url.searchParams.sort();
+
+  // Hash-bang fragments are routes in some single-page sites; other fragments are positions within the page
+  if (!url.hash.startsWith('#!')) {
+    url.hash = '';
+  }
+
+  return url.toString();
+}
+
+/**
+ * Key under which two URLs count as the same page
+ */
+export function getUrlKey(value: string): string {
+  const canonical = canonicalizeUrl(value);
+  const match = /^https?:\/\/(?:www\.)?([^/?#]+)([^?#]*)(.*)$/i.exec(canonical);
+  if (!match) {
+    return canonical;
+  }
+  const path = match[2].replace(/\/+$/, '');
+  return `${match[1].toLowerCase()}${path}${match[3]}`;
+}
+
+/**
+ * Merge results that point to the same page, across one or several result lists.
+ * The first occurrence is kept in place and records every query and position the
+ * page appeared at; later occurrences are removed. Returns how many were removed.
+ */
+export function dedupeResults(lists: { query: string; results: SearchResult[] }[]): number {
+  const seen = new Map<string, SearchResult>();
+  let removed = 0;
+
+  for (const list of lists) {
+    const kept: SearchResult[] = [];
+
+    for (const result of list.results) {
+      const appearance: ResultAppearance = { query: list.query, position: result.position };
+      const key = getUrlKey(result.url);
+      const first = seen.get(key);
+
+      if (first) {
+        first.appearances!.push(appearance);
+        removed++;
+        continue;
+      }
+
+      // Copied, because the results may be shared with the cache
+      const copy = { ...result, appearances: [appearance] };
+      seen.set(key, copy);
+      kept.push(copy);
+    }
+
+    list.results = kept;
+  }
+
+  return removed;
+}
+
+/**
+ * Point Google AMP viewer and AMP cache URLs at the publisher's page
+ */
+function unwrapAmpUrl(url: URL): URL {
+  // https://www.google.com/amp/s/example.com/page
+  const viewer = /^\/amp\/(s\/)?(.+)$/.exec(url.pathname);
+  if (viewer && /(^|\.)google\.[a-z.]+$/i.test(url.hostname)) {
+    return new URL(`${viewer[1] ? 'https' : 'http'}://${viewer[2]}${url.search}`);
+  }
+
+  // https://example-com.cdn.ampproject.org/c/s/example.com/page
+  const cache = /^\/[cvi]\/(s\/)?(.+)$/.exec(url.pathname);
+  if (cache && url.hostname.endsWith('.cdn.ampproject.org')) {
+    return new URL(`${cache[1] ? 'https' : 'http'}://${cache[2]}${url.search}`);
+  }
+
+  return url;
+}
@@ -1,4 +1,8 @@
-import { SearchParams, BulkSearchParams } from '../types/api.js';
+import { SearchParams, BulkSearchParams, MultiQuerySearchParams, FetchPageParams, SearchHistoryParams, GetSearchParams, DateRange, Device, OutputFormat, ParsedQuery } from '../types/api.js';
+import { OUTPUT_FORMATS } from './formatters.js';
+import { normalizeCountry, normalizeLanguage } from './locales.js';
+import { DEFAULT_PAGE_SIZE, MAX_RESULT_OFFSET, decodeCursor } from './pagination.js';
+import { QueryParseError, parseQuery } from './queryParser.js';
 
 /**
  * Validation utilities for MCP tool inputs
@@ -11,6 +15,12 @@ export class ValidationError extends Error {
   }
 }
 
+/** Most queries a bulk search can run */
+export const MAX_BULK_QUERIES = 20;
+
+/** Most variants a multi-query search can combine */
+export const MAX_QUERY_VARIANTS = 10;
+
 /**
  * Validate web search parameters
  */
@@ -46,15 +56,21 @@ export function validateSearchParams(params: any): SearchParams {
     validated.max_results = params.max_results;
   }
 
-  // Validate region
+  // Validate localization
   if (params.region !== undefined) {
-    if (typeof params.region !== 'string') {
-      throw new ValidationError('region must be a string', 'region');
-    }
-    if (!/^[a-z]{2}$/.test(params.region)) {
-      throw new ValidationError('region must be a 2-letter country code', 'region');
-    }
-    validated.region = params.region.toLowerCase();
+    validated.region = validateRegion(params.region);
+  }
+
+  if (params.language !== undefined) {
+    validated.language = validateLanguage(params.language);
+  }
+
+  if (params.location !== undefined) {
+    validated.location = validateLocation(params.location);
+  }
+
+  if (params.device !== undefined) {
+    validated.device = validateDevice(params.device);
   }
 
   // Validate safe_search
@@ -93,13 +109,143 @@ export function validateSearchParams(params: any): SearchParams {
     if (typeof params.date_range !== 'string') {
       throw new ValidationError('date_range must be a string', 'date_range');
     }
-    const allowedRanges = ['past_day', 'past_week', 'past_month', 'past_year'];
+    const allowedRanges: DateRange[] = ['past_day', 'past_week', 'past_month', 'past_year'];
     if (!allowedRanges.includes(params.date_range)) {
       throw new ValidationError(`date_range must be one of: ${allowedRanges.join(', ')}`, 'date_range');
     }
     validated.date_range = params.date_range;
   }
 
+  // Validate operator arguments
+  for (const field of ['intitle', 'inurl', 'intext', 'exact_phrase'] as const) {
+    if (params[field] !== undefined) {
+      validated[field] = validateTerm(params[field], field);
+    }
+  }
+
+  for (const field of ['any_of', 'exclude_terms'] as const) {
+    if (params[field] !== undefined) {
+      validated[field] = validateList(params[field], field).map(term => validateTerm(term, field));
+    }
+  }
+
+  for (const field of ['sites', 'exclude_sites'] as const) {
+    if (params[field] !== undefined) {
+      validated[field] = validateList(params[field], field).map(site => validateSite(site, field));
+    }
+  }
+
+  if (params.related !== undefined) {
+    validated.related = validateSite(params.related, 'related');
+  }
+
+  // Validate absolute date range
+  if (params.date_from !== undefined) {
+    validated.date_from = validateDate(params.date_from, 'date_from');
+  }
+
+  if (params.date_to !== undefined) {
+    validated.date_to = validateDate(params.date_to, 'date_to');
+  }
+
+  if (validated.date_range && (validated.date_from || validated.date_to)) {
+    throw new ValidationError('Use either date_range or date_from/date_to, not both', 'date_range');
+  }
+
+  if (validated.date_from && validated.date_to && validated.date_from > validated.date_to) {
+    throw new ValidationError('date_from must not be after date_to', 'date_from');
+  }
+
+  // Validate format
+  if (params.format !== undefined) {
+    validated.format = validateFormat(params.format);
+  }
+
+  // Validate cache controls
+  if (params.max_age !== undefined) {
+    validated.max_age = validateMaxAge(params.max_age);
+  }
+
+  if (params.no_cache !== undefined) {
+    if (typeof params.no_cache !== 'boolean') {
+      throw new ValidationError('no_cache must be a boolean', 'no_cache');
+    }
+    validated.no_cache = params.no_cache;
+  }
+
+  // Validate max_retries
+  if (params.max_retries !== undefined) {
+    if (typeof params.max_retries !== 'number' || !Number.isInteger(params.max_retries)) {
+      throw new ValidationError('max_retries must be an integer', 'max_retries');
+    }
+    if (params.max_retries < 0 || params.max_retries > 5) {
+      throw new ValidationError('max_retries must be between 0 and 5', 'max_retries');
+    }
+    validated.max_retries = params.max_retries;
+  }
+
+  // Validate dedupe
+  if (params.dedupe !== undefined) {
+    if (typeof params.dedupe !== 'boolean') {
+      throw new ValidationError('dedupe must be a boolean', 'dedupe');
+    }
+    validated.dedupe = params.dedupe;
+  }
+
+  // Validate fetch_top_n
+  if (params.fetch_top_n !== undefined) {
+    if (typeof params.fetch_top_n !== 'number' || !Number.isInteger(params.fetch_top_n)) {
+      throw new ValidationError('fetch_top_n must be an integer', 'fetch_top_n');
+    }
+    if (params.fetch_top_n < 0 || params.fetch_top_n > 5) {
+      throw new ValidationError('fetch_top_n must be between 0 and 5', 'fetch_top_n');
+    }
+    validated.fetch_top_n = params.fetch_top_n;
+  }
+
+  // Validate pagination
+  if (params.cursor !== undefined && params.page !== undefined) {
+    throw new ValidationError('Pass either cursor or page, not both', 'cursor');
+  }
+
+  if (params.cursor !== undefined) {
+    if (typeof params.cursor !== 'string' || !decodeCursor(params.cursor)) {
+      throw new ValidationError('cursor is invalid; use the next_cursor of a previous response', 'cursor');
+    }
+    validated.cursor = params.cursor;
+  }
+
+  if (params.page !== undefined) {
+    if (typeof params.page !== 'number' || !Number.isInteger(params.page) || params.page < 1) {
+      throw new ValidationError('page must be a positive integer', 'page');
+    }
+    if ((params.page - 1) * (validated.max_results ?? DEFAULT_PAGE_SIZE) >= MAX_RESULT_OFFSET) {
+      throw new ValidationError(`page cannot start past result ${MAX_RESULT_OFFSET}`, 'page');
+    }
+    validated.page = params.page;
+  }
+
+  return validated;
+}
+
+// Operator arguments that only advanced_web_search adds to the query
+const ADVANCED_SEARCH_FIELDS = [
+  'site_restrict', 'sites', 'exclude_sites', 'exact_phrase', 'any_of', 'exclude_terms',
+  'intitle', 'inurl', 'intext', 'related', 'file_type', 'date_from', 'date_to'
+] as const;
+
+/**
+ * Validate web_search parameters. Operator arguments are rejected rather than
+ * silently dropped, since a plain web search doesn't apply them.
+ */
+export function validateWebSearchParams(params: any): SearchParams {
+  const validated = validateSearchParams(params);
+
+  const field = ADVANCED_SEARCH_FIELDS.find(name => params[name] !== undefined);
+  if (field) {
+    throw new ValidationError(`${field} is only supported by advanced_web_search`, field);
+  }
+
   return validated;
 }
 
@@ -119,8 +265,8 @@ export function validateBulkSearchParams(params: any): BulkSearchParams {
     throw new ValidationError('queries array cannot be empty', 'queries');
   }
 
-  if (params.queries.length > 20) {
-    throw new ValidationError('queries array cannot exceed 20 items', 'queries');
+  if (params.queries.length > MAX_BULK_QUERIES) {
+    throw new ValidationError(`queries array cannot exceed ${MAX_BULK_QUERIES} items`, 'queries');
   }
 
   // Validate each query
@@ -154,15 +300,21 @@ export function validateBulkSearchParams(params: any): BulkSearchParams {
     validated.max_results_per_query = params.max_results_per_query;
   }
 
-  // Validate region
+  // Validate localization
   if (params.region !== undefined) {
-    if (typeof params.region !== 'string') {
-      throw new ValidationError('region must be a string', 'region');
-    }
-    if (!/^[a-z]{2}$/.test(params.region)) {
-      throw new ValidationError('region must be a 2-letter country code', 'region');
-    }
-    validated.region = params.region.toLowerCase();
+    validated.region = validateRegion(params.region);
+  }
+
+  if (params.language !== undefined) {
+    validated.language = validateLanguage(params.language);
+  }
+
+  if (params.location !== undefined) {
+    validated.location = validateLocation(params.location);
+  }
+
+  if (params.device !== undefined) {
+    validated.device = validateDevice(params.device);
   }
 
   // Validate safe_search
@@ -173,18 +325,378 @@ export function validateBulkSearchParams(params: any): BulkSearchParams {
     validated.safe_search = params.safe_search;
   }
 
+  // Validate format
+  if (params.format !== undefined) {
+    validated.format = validateFormat(params.format);
+  }
+
+  // Validate cache controls
+  if (params.max_age !== undefined) {
+    validated.max_age = validateMaxAge(params.max_age);
+  }
+
+  if (params.no_cache !== undefined) {
+    if (typeof params.no_cache !== 'boolean') {
+      throw new ValidationError('no_cache must be a boolean', 'no_cache');
+    }
+    validated.no_cache = params.no_cache;
+  }
+
+  // Validate max_retries
+  if (params.max_retries !== undefined) {
+    if (typeof params.max_retries !== 'number' || !Number.isInteger(params.max_retries)) {
+      throw new ValidationError('max_retries must be an integer', 'max_retries');
+    }
+    if (params.max_retries < 0 || params.max_retries > 5) {
+      throw new ValidationError('max_retries must be between 0 and 5', 'max_retries');
+    }
+    validated.max_retries = params.max_retries;
+  }
+
+  // Validate dedupe
+  if (params.dedupe !== undefined) {
+    if (typeof params.dedupe !== 'boolean') {
+      throw new ValidationError('dedupe must be a boolean', 'dedupe');
+    }
+    validated.dedupe = params.dedupe;
+  }
+
+  return validated;
+}
+
+/**
+ * Validate multi-query search parameters. The shared search options are
+ * validated as for a bulk search.
+ */
+export function validateMultiQuerySearchParams(params: any): MultiQuerySearchParams {
+  const { dedupe, ...bulkParams } = validateBulkSearchParams(params);
+  const validated: MultiQuerySearchParams = bulkParams;
+
+  if (validated.queries.length < 2 || validated.queries.length > MAX_QUERY_VARIANTS) {
+    throw new ValidationError(`queries must contain between 2 and ${MAX_QUERY_VARIANTS} variants`, 'queries');
+  }
+
+  // Variants that differ only in case, spacing or characters the search API ignores run the same search
+  const normalized = validated.queries.map((query, index) => {
+    try {
+      return sanitizeQuery(query).toLowerCase();
+    } catch (error) {
+      throw error instanceof ValidationError ? new ValidationError(`Query at index ${index}: ${error.message}`, 'queries') : error;
+    }
+  });
+  if (new Set(normalized).size !== normalized.length) {
+    throw new ValidationError('queries must not repeat the same variant', 'queries');
+  }
+
+  // Validate weights
+  if (params.weights !== undefined) {
+    if (!Array.isArray(params.weights) || params.weights.length !== validated.queries.length) {
+      throw new ValidationError('weights must be an array with one weight per query', 'weights');
+    }
+    for (const weight of params.weights) {
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0 || weight > 10) {
+        throw new ValidationError('each weight must be a number greater than 0 and at most 10', 'weights');
+      }
+    }
+    validated.weights = params.weights;
+  }
+
+  // Validate max_results
+  if (params.max_results !== undefined) {
+    if (typeof params.max_results !== 'number' || !Number.isInteger(params.max_results)) {
+      throw new ValidationError('max_results must be an integer', 'max_results');
+    }
+    if (params.max_results < 1 || params.max_results > 50) {
+      throw new ValidationError('max_results must be between 1 and 50', 'max_results');
+    }
+    validated.max_results = params.max_results;
+  }
+
+  // Validate rrf_k
+  if (params.rrf_k !== undefined) {
+    if (typeof params.rrf_k !== 'number' || !Number.isInteger(params.rrf_k)) {
+      throw new ValidationError('rrf_k must be an integer', 'rrf_k');
+    }
+    if (params.rrf_k < 1 || params.rrf_k > 1000) {
+      throw new ValidationError('rrf_k must be between 1 and 1000', 'rrf_k');
+    }
+    validated.rrf_k = params.rrf_k;
+  }
+
+  return validated;
+}
+
+/**
+ * Validate fetch page parameters
+ */
+export function validateFetchPageParams(params: any): FetchPageParams {
+  if (!params || typeof params !== 'object') {
+    throw new ValidationError('Parameters must be an object');
+  }
+
+  if (!params.url || typeof params.url !== 'string') {
+    throw new ValidationError('url is required and must be a string', 'url');
+  }
+
+  const url = params.url.trim();
+  if (url.length > 2048) {
+    throw new ValidationError('url cannot exceed 2048 characters', 'url');
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new ValidationError('url must be an absolute URL such as https://example.com/page', 'url');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new ValidationError('url must use http or https', 'url');
+  }
+
+  const validated: FetchPageParams = { url: parsed.toString() };
+
+  // Validate max_chars
+  if (params.max_chars !== undefined) {
+    if (typeof params.max_chars !== 'number' || !Number.isInteger(params.max_chars)) {
+      throw new ValidationError('max_chars must be an integer', 'max_chars');
+    }
+    if (params.max_chars < 100 || params.max_chars > 100000) {
+      throw new ValidationError('max_chars must be between 100 and 100000', 'max_chars');
+    }
+    validated.max_chars = params.max_chars;
+  }
+
+  // Validate cache controls
+  if (params.max_age !== undefined) {
+    validated.max_age = validateMaxAge(params.max_age);
+  }
+
+  if (params.no_cache !== undefined) {
+    if (typeof params.no_cache !== 'boolean') {
+      throw new ValidationError('no_cache must be a boolean', 'no_cache');
+    }
+    validated.no_cache = params.no_cache;
+  }
+
   return validated;
 }
 
+export function validateSearchHistoryParams(params: any): SearchHistoryParams {
+  if (params === undefined || params === null) {
+    return {};
+  }
+  if (typeof params !== 'object') {
+    throw new ValidationError('Parameters must be an object');
+  }
+
+  const validated: SearchHistoryParams = {};
+
+  // Validate limit
+  if (params.limit !== undefined) {
+    if (typeof params.limit !== 'number' || !Number.isInteger(params.limit)) {
+      throw new ValidationError('limit must be an integer', 'limit');
+    }
+    if (params.limit < 1 || params.limit > 100) {
+      throw new ValidationError('limit must be between 1 and 100', 'limit');
+    }
+    validated.limit = params.limit;
+  }
+
+  for (const field of ['tool', 'query', 'cursor'] as const) {
+    if (params[field] === undefined) {
+      continue;
+    }
+    if (typeof params[field] !== 'string' || !params[field].trim()) {
+      throw new ValidationError(`${field} must be a non-empty string`, field);
+    }
+    if (params[field].length > 500) {
+      throw new ValidationError(`${field} cannot exceed 500 characters`, field);
+    }
+    validated[field] = params[field].trim();
+  }
+
+  return validated;
+}
+
+export function validateGetSearchParams(params: any): GetSearchParams {
+  if (!params || typeof params !== 'object') {
+    throw new ValidationError('Parameters must be an object');
+  }
+
+  if (!params.id || typeof params.id !== 'string' || !params.id.trim()) {
+    throw new ValidationError('id is required and must be a string', 'id');
+  }
+
+  return { id: params.id.trim() };
+}
+
+/**
+ * Validate the output format shared by the search tools
+ */
+function validateFormat(format: any): OutputFormat {
+  if (typeof format !== 'string') {
+    throw new ValidationError('format must be a string', 'format');
+  }
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new ValidationError(`format must be one of: ${OUTPUT_FORMATS.join(', ')}`, 'format');
+  }
+  return format as OutputFormat;
+}
+
+/**
+ * Validate a country code against the bundled ISO 3166-1 list
+ */
+function validateRegion(value: any): string {
+  if (typeof value !== 'string') {
+    throw new ValidationError('region must be a string', 'region');
+  }
+  const region = normalizeCountry(value);
+  if (!region) {
+    throw new ValidationError('region must be an ISO 3166-1 alpha-2 country code such as us or de', 'region');
+  }
+  return region;
+}
+
+/**
+ * Validate an interface language against the bundled ISO 639-1 list,
+ * optionally with a country, e.g. en or pt-BR
+ */
+function validateLanguage(value: any): string {
+  if (typeof value !== 'string') {
+    throw new ValidationError('language must be a string', 'language');
+  }
+  const language = normalizeLanguage(value);
+  if (!language) {
+    throw new ValidationError('language must be an ISO 639-1 language code such as en, optionally with a country such as pt-BR', 'language');
+  }
+  return language;
+}
+
+/**
+ * Validate a free-form location name such as "Austin, Texas, United States"
+ */
+function validateLocation(value: any): string {
+  if (typeof value !== 'string') {
+    throw new ValidationError('location must be a string', 'location');
+  }
+  const location = value.replace(/\s+/g, ' ').trim();
+  if (location.length < 2 || location.length > 100) {
+    throw new ValidationError('location must be between 2 and 100 characters', 'location');
+  }
+  if (/[<>"\u0000-\u001f\u007f]/.test(location)) {
+    throw new ValidationError('location contains invalid characters', 'location');
+  }
+  return location;
+}
+
+function validateDevice(value: any): Device {
+  const devices: Device[] = ['desktop', 'mobile'];
+  if (typeof value !== 'string' || !devices.includes(value as Device)) {
+    throw new ValidationError(`device must be one of: ${devices.join(', ')}`, 'device');
+  }
+  return value as Device;
+}
+
+/**
+ * Validate a word or phrase for a query operator. Quotes are stripped because
+ * the query builder adds its own.
+ */
+function validateTerm(value: any, field: string): string {
+  if (typeof value !== 'string') {
+    throw new ValidationError(`${field} must be a string`, field);
+  }
+  const term = value.replace(/[<>"\u0000-\u001f\u007f]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (term.length === 0) {
+    throw new ValidationError(`${field} cannot be empty`, field);
+  }
+  if (term.length > 100) {
+    throw new ValidationError(`${field} cannot exceed 100 characters`, field);
+  }
+  return term;
+}
+
+/**
+ * Validate a non-empty array of at most 10 operator values
+ */
+function validateList(value: any, field: string): any[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError(`${field} must be an array`, field);
+  }
+  if (value.length === 0) {
+    throw new ValidationError(`${field} cannot be empty`, field);
+  }
+  if (value.length > 10) {
+    throw new ValidationError(`${field} cannot exceed 10 items`, field);
+  }
+  return value;
+}
+
+/**
+ * Validate a domain or URL prefix for site: and related:, dropping any scheme
+ */
+function validateSite(value: any, field: string): string {
+  if (typeof value !== 'string') {
+    throw new ValidationError(`${field} must be a string`, field);
+  }
+  const site = value.trim().replace(/^https?:\/\//i, '').replace(/\/$/, '');
+  if (!/^\.?[a-z0-9-]+(\.[a-z0-9-]+)*(\/[^\s"'<>]*)?$/i.test(site)) {
+    throw new ValidationError(`${field} must be a domain such as example.com`, field);
+  }
+  // Host names are case-insensitive, paths are not
+  const slash = site.indexOf('/');
+  return slash === -1 ? site.toLowerCase() : site.slice(0, slash).toLowerCase() + site.slice(slash);
+}
+
+/**
+ * Validate a calendar date in YYYY-MM-DD form
+ */
+function validateDate(value: any, field: string): string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new ValidationError(`${field} must be a date in YYYY-MM-DD format`, field);
+  }
+
+  // Reject dates like 2024-02-30 that Date would silently roll over
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value) {
+    throw new ValidationError(`${field} is not a valid date`, field);
+  }
+
+  return value;
+}
+
+/**
+ * Validate the maximum acceptable age of a cached response, in seconds
+ */
+function validateMaxAge(maxAge: any): number {
+  if (typeof maxAge !== 'number' || !Number.isInteger(maxAge)) {
+    throw new ValidationError('max_age must be an integer', 'max_age');
+  }
+  if (maxAge < 0) {
+    throw new ValidationError('max_age cannot be negative', 'max_age');
+  }
+  return maxAge;
+}
+
+/**
+ * Parse a query into terms, phrases and operators, rejecting malformed operators
+ */
+export function parseSearchQuery(query: string, field: string = 'query'): ParsedQuery {
+  try {
+    return parseQuery(query);
+  } catch (error) {
+    if (error instanceof QueryParseError) {
+      throw new ValidationError(error.message, field);
+    }
+    throw error;
+  }
+}
+
 /**
- * Sanitize query string to prevent injection attacks
+ * Sanitize a query string: drop characters with no meaning to the search API and
+ * normalize whitespace, while keeping phrases, apostrophes and operators intact
  */
 export function sanitizeQuery(query: string): string {
-  // Remove potentially dangerous characters while preserving search operators
-  return query
-    .replace(/[<>"']/g, '') // Remove HTML/script injection chars
-    .replace(/\s+/g, ' ') // Normalize whitespace
-    .trim();
+  return parseSearchQuery(query).query;
 }
 
 /**